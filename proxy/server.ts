@@ -0,0 +1,204 @@
+import { timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ProviderId, Settings } from "../src/utils/types";
+import type { ProxyHealthResponse, ProxyTranslateRequest, ProxyTranslateResponse } from "../src/services/proxy";
+import { PROVIDERS } from "../src/services/providers";
+import { PROXY_SETTING_KEYS } from "../src/services/proxy";
+import { OpenAIError } from "../src/services/openai";
+import { defaultSettings } from "../src/services/storage";
+
+const env = process.env;
+const PORT = Number(env.PORT ?? 8787);
+const MAX_BODY_BYTES = Number(env.MAX_BODY_BYTES ?? 1_000_000);
+const ALLOWED_ORIGINS = (env.ALLOWED_ORIGINS ?? "")
+  .split(",")
+  .map((o) => o.trim())
+  .filter(Boolean);
+const PROXY_TOKEN = env.PROXY_TOKEN ?? "";
+const ALLOWED_MODELS = (env.ALLOWED_MODELS ?? "")
+  .split(",")
+  .map((m) => m.trim())
+  .filter(Boolean);
+
+// Credentials never leave this process: the taskpane only picks a provider id.
+const CREDENTIALS: Record<ProviderId, Pick<Settings, "apiKey" | "baseUrl"> | null> = {
+  openai: env.OPENAI_API_KEY ? { apiKey: env.OPENAI_API_KEY, baseUrl: "" } : null,
+  openaiCompatible: env.COMPAT_BASE_URL
+    ? { apiKey: env.COMPAT_API_KEY ?? "", baseUrl: env.COMPAT_BASE_URL }
+    : null,
+  deepl: env.DEEPL_API_KEY ? { apiKey: env.DEEPL_API_KEY, baseUrl: "" } : null,
+  mock: env.ENABLE_MOCK === "1" ? { apiKey: "", baseUrl: "" } : null
+};
+
+// The proxy spends the company's keys. The origin list only binds browsers (any other
+// client can send its own Origin header): callers must also present the shared token.
+if (!ALLOWED_ORIGINS.length || ALLOWED_ORIGINS.includes("*")) {
+  console.error("ALLOWED_ORIGINS doit lister les origines du panneau (ex. https://org.github.io), sans « * ».");
+  process.exit(1);
+}
+if (!PROXY_TOKEN) {
+  console.error("PROXY_TOKEN doit être défini : le panneau l'envoie comme jeton Bearer.");
+  process.exit(1);
+}
+
+class HttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string
+  ) {
+    super(message);
+  }
+}
+
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  return ALLOWED_ORIGINS.includes(req.headers.origin ?? "");
+}
+
+function corsHeaders(req: IncomingMessage): Record<string, string> {
+  if (!isAllowedOrigin(req)) return {};
+  return {
+    "Access-Control-Allow-Origin": req.headers.origin!,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Expose-Headers": "Retry-After",
+    Vary: "Origin"
+  };
+}
+
+function checkToken(req: IncomingMessage) {
+  const given = Buffer.from(req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "");
+  const expected = Buffer.from(PROXY_TOKEN);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new HttpError("Jeton du proxy manquant ou invalide.", 401);
+  }
+}
+
+function sendJSON(
+  req: IncomingMessage,
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  res.writeHead(status, { "Content-Type": "application/json", ...corsHeaders(req), ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError("Requête trop volumineuse.", 413);
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError("JSON invalide.", 400);
+  }
+}
+
+function availableProviders() {
+  return PROVIDERS.filter((p) => CREDENTIALS[p.id]);
+}
+
+function buildSettings(options: ProxyTranslateRequest["options"]): Settings {
+  const base = defaultSettings();
+  const next: Settings = { ...base, proxyUrl: "" };
+  for (const key of PROXY_SETTING_KEYS) {
+    if (options?.[key] !== undefined) (next as any)[key] = options[key];
+  }
+
+  const provider = availableProviders().find((p) => p.id === next.provider);
+  const credentials = CREDENTIALS[next.provider];
+  if (!provider || !credentials) {
+    throw new HttpError(`Fournisseur non disponible : ${next.provider}`, 503, "provider_unavailable");
+  }
+
+  next.model = (next.model ?? "").trim() || provider.defaultModel;
+  if (ALLOWED_MODELS.length && !ALLOWED_MODELS.includes(next.model)) {
+    throw new HttpError(`Modèle non autorisé : ${next.model}`, 403);
+  }
+
+  return { ...next, ...credentials };
+}
+
+function isTranslateItem(item: any): boolean {
+  return (
+    typeof item?.paragraphId === "string" &&
+    typeof item.originalChars === "number" &&
+    Array.isArray(item.runs) &&
+    item.runs.every((r: any) => typeof r?.index === "number" && typeof r.text === "string") &&
+    (item.issue === undefined || typeof item.issue === "string") &&
+    (item.maxChars === undefined || typeof item.maxChars === "number") &&
+    (item.markup === undefined || typeof item.markup === "boolean") &&
+    (item.context === undefined || (typeof item.context === "object" && item.context !== null))
+  );
+}
+
+async function handleTranslate(req: IncomingMessage, res: ServerResponse) {
+  // Browsers from other sites are turned away here; other clients by the token check.
+  if (!isAllowedOrigin(req)) throw new HttpError("Origine non autorisée.", 403);
+  checkToken(req);
+  const body = (await readBody(req)) as Partial<ProxyTranslateRequest>;
+  if (!Array.isArray(body?.items)) throw new HttpError("Champ `items` manquant.", 400);
+  const bad = body.items.findIndex((item) => !isTranslateItem(item));
+  if (bad >= 0) throw new HttpError(`Élément \`items[${bad}]\` invalide.`, 400);
+
+  const settings = buildSettings(body.options as ProxyTranslateRequest["options"]);
+  const provider = PROVIDERS.find((p) => p.id === settings.provider)!;
+
+  // The taskpane cancelled (or went away): stop paying for the vendor call.
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  const items = await provider.translate(body.items, settings, controller.signal);
+
+  const out: ProxyTranslateResponse = { items };
+  sendJSON(req, res, 200, out);
+}
+
+function handleHealth(req: IncomingMessage, res: ServerResponse) {
+  checkToken(req);
+  const out: ProxyHealthResponse = {
+    providers: availableProviders().map((p) => ({ id: p.id, defaultModel: p.defaultModel }))
+  };
+  sendJSON(req, res, 200, out);
+}
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+  try {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, corsHeaders(req));
+      res.end();
+      return;
+    }
+    if (req.method === "GET" && path === "/health") return handleHealth(req, res);
+    if (req.method === "POST" && path === "/translate") return await handleTranslate(req, res);
+    throw new HttpError("Not found", 404);
+  } catch (e: any) {
+    // A vendor failure is a bad gateway even when the vendor itself answered 200.
+    const upstream = e instanceof OpenAIError && e.status !== undefined && e.status >= 400 ? e.status : 502;
+    const status = e instanceof HttpError ? e.status : e instanceof OpenAIError ? upstream : 500;
+    if (status >= 500) console.error(e);
+    // Pass the vendor's Retry-After through so the taskpane backs off correctly.
+    const headers: Record<string, string> = {};
+    if (e instanceof OpenAIError && e.retryAfterMs !== undefined) {
+      headers["Retry-After"] = String(Math.ceil(e.retryAfterMs / 1000));
+    }
+    const code = e instanceof HttpError ? e.code : undefined;
+    sendJSON(req, res, status, { error: { message: e?.message ?? "Erreur proxy", code } }, headers);
+  }
+});
+
+server.listen(PORT, () => {
+  const ids = availableProviders().map((p) => p.id);
+  console.log(`SlideTranslate proxy on :${PORT} — fournisseurs : ${ids.join(", ") || "aucun"}`);
+  console.log(`Origines autorisées : ${ALLOWED_ORIGINS.join(", ")}`);
+});
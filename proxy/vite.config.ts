@@ -0,0 +1,17 @@
+import { defineConfig } from "vite";
+import { resolve } from "path";
+
+// Bundles the proxy (and the shared providers it imports from src/) into a
+// single Node ESM file: `npm run proxy:build && npm run proxy:start`.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: resolve(__dirname, "server.ts"),
+    outDir: resolve(__dirname, "dist"),
+    target: "node20",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: { entryFileNames: "server.js" }
+    }
+  }
+});
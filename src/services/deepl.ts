@@ -0,0 +1,123 @@
+import type { Settings, TranslationResult } from "../utils/types";
+import type { TranslationProvider } from "./providers";
+import { OpenAIError, parseRetryAfter } from "./openai";
+import { escapeMarkup, unescapeMarkup } from "../utils/markup";
+
+const DEFAULT_MODEL = "prefer_quality_optimized";
+
+// DeepL wants regional variants for a few target languages.
+const TARGET_CODES: Record<string, string> = {
+  en: "EN-US",
+  pt: "PT-PT",
+  no: "NB",
+  zh: "ZH-HANS"
+};
+
+const SOURCE_CODES: Record<string, string> = {
+  no: "NB"
+};
+
+function deeplBaseUrl(apiKey: string): string {
+  // Free-tier keys end with ":fx" and live on a separate host.
+  return apiKey.trim().endsWith(":fx") ? "https://api-free.deepl.com/v2" : "https://api.deepl.com/v2";
+}
+
+function deeplHeaders(apiKey: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `DeepL-Auth-Key ${apiKey}`
+  };
+}
+
+async function readDeepLError(res: Response): Promise<never> {
+  const json = await res.json().catch(() => ({}));
+  throw new OpenAIError(
+    (json?.message as string) || "Erreur DeepL",
+    res.status,
+    json,
+    parseRetryAfter(res.headers.get("retry-after"))
+  );
+}
+
+export const deeplProvider: TranslationProvider = {
+  id: "deepl",
+  label: "DeepL",
+  defaultModel: DEFAULT_MODEL,
+  needsApiKey: true,
+  needsProxy: true,
+
+  async test(settings: Settings) {
+    if (!settings.apiKey) throw new OpenAIError("Aucune clé API.");
+
+    const res = await fetch(`${deeplBaseUrl(settings.apiKey)}/usage`, {
+      method: "GET",
+      headers: deeplHeaders(settings.apiKey)
+    });
+    if (!res.ok) await readDeepLError(res);
+  },
+
+  async translate(items, settings, signal) {
+    if (!settings.apiKey) throw new OpenAIError("Aucune clé API.");
+    if (!items.length) return [];
+
+    // DeepL has no notion of runs: send every non-blank run as its own segment
+    // and map the segments back by position. Inline markup is XML to DeepL, which
+    // then moves the tags itself; plain runs of the same request must be escaped.
+    const xml = items.some((item) => item.markup);
+    const escape = (item: (typeof items)[number], text: string) => (xml && !item.markup ? escapeMarkup(text) : text);
+    const texts: string[] = [];
+    const slots: Array<{ itemIdx: number; runIndex: number }> = [];
+    items.forEach((item, itemIdx) => {
+      for (const run of item.runs) {
+        if (!run.text.trim()) continue;
+        texts.push(escape(item, run.text));
+        slots.push({ itemIdx, runIndex: run.index });
+      }
+    });
+
+    const results: TranslationResult[] = items.map((item) => ({
+      paragraphId: item.paragraphId,
+      translatedRuns: item.runs.map((r) => ({ index: r.index, text: r.text }))
+    }));
+    if (!texts.length) return results;
+
+    const body: Record<string, unknown> = {
+      text: texts,
+      target_lang: TARGET_CODES[settings.toLang] ?? settings.toLang.toUpperCase(),
+      preserve_formatting: true,
+      model_type: settings.model || DEFAULT_MODEL
+    };
+    if (xml) body.tag_handling = "xml";
+    // DeepL takes one (unbilled) context per request: use it when the whole batch shares a slide title.
+    const titles = new Set(items.map((i) => i.context?.slideTitle ?? ""));
+    const [title] = [...titles];
+    if (titles.size === 1 && title) body.context = title;
+    if (settings.fromLang !== "auto") {
+      body.source_lang = SOURCE_CODES[settings.fromLang] ?? settings.fromLang.toUpperCase();
+    }
+
+    const res = await fetch(`${deeplBaseUrl(settings.apiKey)}/translate`, {
+      method: "POST",
+      headers: deeplHeaders(settings.apiKey),
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!res.ok) await readDeepLError(res);
+
+    const json = await res.json().catch(() => ({}));
+    const translations = json?.translations;
+    if (!Array.isArray(translations) || translations.length !== texts.length) {
+      throw new OpenAIError("Sortie DeepL inattendue.", res.status, json);
+    }
+
+    translations.forEach((t: any, i: number) => {
+      const slot = slots[i];
+      const run = results[slot.itemIdx].translatedRuns.find((r) => r.index === slot.runIndex);
+      if (run && typeof t?.text === "string") {
+        run.text = xml && !items[slot.itemIdx].markup ? unescapeMarkup(t.text) : t.text;
+      }
+    });
+
+    return results;
+  }
+};
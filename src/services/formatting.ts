@@ -1,4 +1,4 @@
-import type { FontSnapshot, Paragraph, ParagraphFormatSnapshot, Run, Settings } from "../utils/types";
+import type { BilingualStyle, FontSnapshot, Paragraph, ParagraphFormatSnapshot, Run, Settings } from "../utils/types";
 import { isNonTranslatable, preserveWhitespace } from "../utils/text";
 
 function fontKey(f: FontSnapshot): string {
@@ -60,46 +60,142 @@ function defaultFontSnapshot(): FontSnapshot {
   };
 }
 
-export async function extractParagraphFormat(
+const FONT_PROPS =
+  "font/allCaps,font/bold,font/color,font/doubleStrikethrough,font/italic,font/name,font/size,font/smallCaps,font/strikethrough,font/subscript,font/superscript,font/underline";
+const MAX_CHAR_SCAN = 1500;
+// Office rejects oversized requests: dense slides are loaded in several syncs.
+const MAX_LOADS_PER_SYNC = 1000;
+
+export interface ShapeTextSource {
+  textRange: PowerPoint.TextRange;
+  shapeId: string; // part of the paragraph ids
+  text: string;
+}
+
+interface ParagraphLoad {
+  range: PowerPoint.TextRange; // the whole shape text
+  start: number;
+  text: string;
+  formatRange: PowerPoint.TextRange;
+  charRanges?: PowerPoint.TextRange[]; // short paragraphs: one range per character
+  spans?: { start: number; length: number; font: FontSnapshot }[]; // long ones: binary split
+}
+
+/** Queues `queue(item)` for every item, syncing every `MAX_LOADS_PER_SYNC` items. */
+async function loadInBatches<T>(
   context: PowerPoint.RequestContext,
-  range: PowerPoint.TextRange
-): Promise<ParagraphFormatSnapshot | undefined> {
-  const out: ParagraphFormatSnapshot = {};
+  items: T[],
+  queue: (item: T) => void
+): Promise<void> {
+  for (let i = 0; i < items.length; i += MAX_LOADS_PER_SYNC) {
+    for (const item of items.slice(i, i + MAX_LOADS_PER_SYNC)) queue(item);
+    await context.sync();
+  }
+}
+
+/**
+ * Paragraphs of many shapes at once. Loads are queued for every paragraph before
+ * syncing: character fonts, then each binary-split level of long paragraphs, then
+ * paragraph formats, each in as few syncs as the request size allows.
+ */
+export async function extractParagraphsBatch(
+  context: PowerPoint.RequestContext,
+  slideIndex: number,
+  sources: ShapeTextSource[]
+): Promise<Paragraph[][]> {
+  const loads = sources.map((src) => {
+    if (!src.text) return [];
+    let cursor = 0;
+    return src.text.split("\n").map((text) => {
+      const start = cursor;
+      cursor += text.length + 1;
+      const load: ParagraphLoad = {
+        range: src.textRange,
+        start,
+        text,
+        formatRange: src.textRange.getSubstring(start, text.length)
+      };
+      if (text.length && text.length <= MAX_CHAR_SCAN) load.charRanges = [];
+      return load;
+    });
+  });
+
+  const all = loads.flat();
+  const chars: { load: ParagraphLoad; offset: number }[] = [];
+  for (const l of all) {
+    if (l.charRanges) for (let i = 0; i < l.text.length; i++) chars.push({ load: l, offset: i });
+  }
+  await loadInBatches(context, chars, ({ load, offset }) => {
+    const r = load.range.getSubstring(load.start + offset, 1);
+    r.load(FONT_PROPS);
+    load.charRanges!.push(r);
+  });
+  const long = all.filter((l) => l.text.length > MAX_CHAR_SCAN);
+  if (long.length) await loadSplitSpans(context, long);
+
   const wantsBulletDetails = isApiSupported("1.10");
+  await loadParagraphFormats(context, all.map((l) => l.formatRange), wantsBulletDetails);
+
+  return loads.map((paragraphs, k) =>
+    paragraphs.map((l, p) => ({
+      id: `s${slideIndex}_shape${sources[k].shapeId}_p${p}`,
+      originalCharCount: l.text.length,
+      runs: paragraphRuns(l),
+      paragraphFormat: readParagraphFormat(l.formatRange, wantsBulletDetails)
+    }))
+  );
+}
+
+async function loadParagraphFormats(
+  context: PowerPoint.RequestContext,
+  ranges: PowerPoint.TextRange[],
+  wantsBulletDetails: boolean
+): Promise<void> {
+  if (!ranges.length) return;
+  const loadAll = (props: string) => loadInBatches(context, ranges, (r) => r.load(props));
+
+  const props = [
+    "paragraphFormat/indentLevel",
+    "paragraphFormat/bulletFormat/visible",
+    "paragraphFormat/horizontalAlignment"
+  ];
+  if (wantsBulletDetails) {
+    props.push("paragraphFormat/bulletFormat/type", "paragraphFormat/bulletFormat/style");
+  }
 
   try {
-    const props = [
-      "paragraphFormat/indentLevel",
-      "paragraphFormat/bulletFormat/visible",
+    await loadAll(props.join(","));
+  } catch {
+    // Some hosts reject part of the set: load what they accept, group by group.
+    const groups = [
+      "paragraphFormat/indentLevel,paragraphFormat/bulletFormat/visible",
       "paragraphFormat/horizontalAlignment"
     ];
-    if (wantsBulletDetails) {
-      props.push("paragraphFormat/bulletFormat/type", "paragraphFormat/bulletFormat/style");
-    }
-    range.load(props.join(","));
-    await context.sync();
-  } catch {
-    try {
-      range.load("paragraphFormat/indentLevel,paragraphFormat/bulletFormat/visible");
-      await context.sync();
-    } catch {
-      // ignore
-    }
-    try {
-      range.load("paragraphFormat/horizontalAlignment");
-      await context.sync();
-    } catch {
-      // ignore
-    }
-    if (wantsBulletDetails) {
+    if (wantsBulletDetails) groups.push("paragraphFormat/bulletFormat/type,paragraphFormat/bulletFormat/style");
+    for (const group of groups) {
       try {
-        range.load("paragraphFormat/bulletFormat/type,paragraphFormat/bulletFormat/style");
-        await context.sync();
+        await loadAll(group);
       } catch {
-        // ignore
+        // One paragraph is enough to fail the whole sync: retry them one by one so
+        // that only the paragraphs the host refuses lose this group.
+        for (const r of ranges) {
+          try {
+            r.load(group);
+            await context.sync();
+          } catch {
+            // ignore
+          }
+        }
       }
     }
   }
+}
+
+function readParagraphFormat(
+  range: PowerPoint.TextRange,
+  wantsBulletDetails: boolean
+): ParagraphFormatSnapshot | undefined {
+  const out: ParagraphFormatSnapshot = {};
 
   try {
     out.indentLevel = range.paragraphFormat.indentLevel ?? undefined;
@@ -132,171 +228,116 @@ export async function extractParagraphFormat(
   return Object.keys(out).length ? out : undefined;
 }
 
-export async function extractShapeTextParagraphs(
-  context: PowerPoint.RequestContext,
-  textRange: PowerPoint.TextRange,
-  slideIndex: number,
-  shapeId: string,
-  knownText?: string
-): Promise<Paragraph[]> {
-  let text = knownText;
-  if (text === undefined) {
-    textRange.load("text");
-    await context.sync();
-    text = textRange.text ?? "";
-  }
-  if (!text) return [];
-
-  const paras = text.split("\n");
-  const out: Paragraph[] = [];
-  let cursor = 0;
-  for (let p = 0; p < paras.length; p++) {
-    const pText = paras[p];
-    const pStart = cursor;
-    const pRange = textRange.getSubstring(pStart, pText.length);
-
-    const pFormat = await extractParagraphFormat(context, pRange);
-    const runs = await extractRunsByFont(context, textRange, pStart, pText);
-
-    out.push({
-      id: `s${slideIndex}_shape${shapeId}_p${p}`,
-      originalCharCount: pText.length,
-      runs,
-      paragraphFormat: pFormat
+/** Halves mixed-font spans until each has a single font, one sync per level for all paragraphs. */
+async function loadSplitSpans(context: PowerPoint.RequestContext, loads: ParagraphLoad[]): Promise<void> {
+  let pending = loads.map((load) => ({ load, start: load.start, length: load.text.length }));
+  for (const l of loads) l.spans = [];
+
+  while (pending.length) {
+    const ranges: PowerPoint.TextRange[] = [];
+    await loadInBatches(context, pending, (p) => {
+      const r = p.load.range.getSubstring(p.start, p.length);
+      r.load(FONT_PROPS);
+      ranges.push(r);
     });
 
-    cursor += pText.length;
-    if (p < paras.length - 1) cursor += 1;
+    const next: typeof pending = [];
+    pending.forEach((p, k) => {
+      const font = ranges[k].font;
+      const raw: any = {
+        allCaps: font.allCaps,
+        bold: font.bold,
+        color: font.color,
+        doubleStrikethrough: font.doubleStrikethrough,
+        italic: font.italic,
+        name: font.name,
+        size: font.size,
+        smallCaps: font.smallCaps,
+        strikethrough: font.strikethrough,
+        subscript: font.subscript,
+        superscript: font.superscript,
+        underline: font.underline
+      };
+      const mixed = Object.values(raw).some((v) => v === null || v === undefined);
+      if (!mixed || p.length <= 1) {
+        p.load.spans!.push({ start: p.start, length: p.length, font: safeFontSnapshot(font) });
+        return;
+      }
+      const mid = Math.floor(p.length / 2);
+      next.push({ load: p.load, start: p.start, length: mid }, { load: p.load, start: p.start + mid, length: p.length - mid });
+    });
+    pending = next;
   }
-
-  return out;
 }
 
-async function extractRunsByFont(
-  context: PowerPoint.RequestContext,
-  fullRange: PowerPoint.TextRange,
-  paragraphStart: number,
-  paragraphText: string
-): Promise<Run[]> {
-  const n = paragraphText.length;
-  if (n === 0) return [{ text: "", font: defaultFontSnapshot() }];
-
-  const MAX_CHAR_SCAN = 1500;
-  if (n <= MAX_CHAR_SCAN) {
-    return extractRunsByCharScan(context, fullRange, paragraphStart, paragraphText);
-  }
-  return extractRunsByBinarySplit(context, fullRange, paragraphStart, paragraphText);
-}
+function paragraphRuns(load: ParagraphLoad): Run[] {
+  if (!load.text.length) return [{ text: "", font: defaultFontSnapshot() }];
 
-async function extractRunsByCharScan(
-  context: PowerPoint.RequestContext,
-  fullRange: PowerPoint.TextRange,
-  paragraphStart: number,
-  paragraphText: string
-): Promise<Run[]> {
-  const n = paragraphText.length;
-  const charRanges: PowerPoint.TextRange[] = [];
-  for (let i = 0; i < n; i++) {
-    const r = fullRange.getSubstring(paragraphStart + i, 1);
-    r.load(
-      "font/allCaps,font/bold,font/color,font/doubleStrikethrough,font/italic,font/name,font/size,font/smallCaps,font/strikethrough,font/subscript,font/superscript,font/underline"
-    );
-    charRanges.push(r);
-  }
-  await context.sync();
+  const pieces = load.charRanges
+    ? load.charRanges.map((r, i) => ({ text: load.text[i], font: safeFontSnapshot(r.font) }))
+    : [...(load.spans ?? [])]
+        .sort((a, b) => a.start - b.start)
+        .map((sp) => ({ text: load.text.slice(sp.start - load.start, sp.start - load.start + sp.length), font: sp.font }));
 
+  // Neighbouring pieces with the same font make one run.
   const runs: Run[] = [];
-  let curFont: FontSnapshot | null = null;
-  let curText = "";
-
-  for (let i = 0; i < n; i++) {
-    const f = safeFontSnapshot(charRanges[i].font);
-    if (!curFont) {
-      curFont = f;
-      curText = paragraphText[i];
-      continue;
-    }
-    if (fontKey(curFont) === fontKey(f)) {
-      curText += paragraphText[i];
-    } else {
-      runs.push({ text: curText, font: curFont });
-      curFont = f;
-      curText = paragraphText[i];
-    }
+  for (const piece of pieces) {
+    const last = runs[runs.length - 1];
+    if (last && fontKey(last.font) === fontKey(piece.font)) last.text += piece.text;
+    else runs.push({ ...piece });
   }
-  if (curFont) runs.push({ text: curText, font: curFont });
   return runs;
 }
 
-async function extractRunsByBinarySplit(
-  context: PowerPoint.RequestContext,
-  fullRange: PowerPoint.TextRange,
-  paragraphStart: number,
-  paragraphText: string
-): Promise<Run[]> {
-  const spans: { start: number; length: number; font: FontSnapshot }[] = [];
-
-  async function split(start: number, length: number): Promise<void> {
-    const r = fullRange.getSubstring(start, length);
-    r.load(
-      "font/allCaps,font/bold,font/color,font/doubleStrikethrough,font/italic,font/name,font/size,font/smallCaps,font/strikethrough,font/subscript,font/superscript,font/underline"
-    );
-    await context.sync();
-
-    const raw: any = {
-      allCaps: r.font.allCaps,
-      bold: r.font.bold,
-      color: r.font.color,
-      doubleStrikethrough: r.font.doubleStrikethrough,
-      italic: r.font.italic,
-      name: r.font.name,
-      size: r.font.size,
-      smallCaps: r.font.smallCaps,
-      strikethrough: r.font.strikethrough,
-      subscript: r.font.subscript,
-      superscript: r.font.superscript,
-      underline: r.font.underline
-    };
-
-    const mixed = Object.values(raw).some((v) => v === null || v === undefined);
-    if (!mixed || length <= 1) {
-      spans.push({ start, length, font: safeFontSnapshot(r.font) });
-      return;
+/**
+ * Splits runs at the bounds of [start, start + length) — offsets in the whole shape
+ * text, paragraphs joined by "\n" — and returns, per paragraph id, the indices of the
+ * runs inside that span. Paragraphs outside the span are not listed.
+ */
+export function selectRunsInRange(
+  paragraphs: Paragraph[],
+  start: number,
+  length: number
+): { paragraphs: Paragraph[]; selectedRuns: Record<string, number[]> } {
+  const end = start + length;
+  const selectedRuns: Record<string, number[]> = {};
+  let offset = 0;
+
+  const out = paragraphs.map((p) => {
+    const runs: Run[] = [];
+    const picked: number[] = [];
+    for (const r of p.runs) {
+      const rStart = offset;
+      const rEnd = offset + r.text.length;
+      offset = rEnd;
+      if (!r.text.length) {
+        runs.push(r);
+        continue;
+      }
+      const clamp = (x: number) => Math.min(Math.max(x, rStart), rEnd);
+      const cuts = [rStart, clamp(start), clamp(end), rEnd];
+      for (let i = 0; i < 3; i++) {
+        const a = cuts[i];
+        const b = cuts[i + 1];
+        if (b <= a) continue;
+        if (a >= start && b <= end) picked.push(runs.length);
+        runs.push({ ...r, text: r.text.slice(a - rStart, b - rStart) });
+      }
     }
+    offset += 1; // paragraph separator
+    if (picked.length) selectedRuns[p.id] = picked;
+    return { ...p, runs };
+  });
 
-    const mid = Math.floor(length / 2);
-    await split(start, mid);
-    await split(start + mid, length - mid);
-  }
-
-  await split(paragraphStart, paragraphText.length);
-
-  spans.sort((a, b) => a.start - b.start);
-
-  const out: Run[] = [];
-  let last: Run | null = null;
-  for (const s of spans) {
-    const localStart = s.start - paragraphStart;
-    const piece = paragraphText.slice(localStart, localStart + s.length);
-    if (!last) {
-      last = { text: piece, font: s.font };
-      continue;
-    }
-    if (fontKey(last.font) === fontKey(s.font)) {
-      last.text += piece;
-    } else {
-      out.push(last);
-      last = { text: piece, font: s.font };
-    }
-  }
-  if (last) out.push(last);
-  return out;
+  return { paragraphs: out, selectedRuns };
 }
 
 export function applyRunTranslations(
   paragraph: Paragraph,
-  translatedRuns: { index: number; text: string }[]
+  translatedRuns: { index: number; text: string }[],
+  reordered = false
 ): Paragraph {
+  if (reordered) return { ...paragraph, runs: reorderRuns(paragraph.runs, translatedRuns) };
   const map = new Map<number, string>(translatedRuns.map((r) => [r.index, r.text]));
   const nextRuns: Run[] = paragraph.runs.map((r, idx) => {
     if (isNonTranslatable(r.text)) return r;
@@ -307,6 +348,75 @@ export function applyRunTranslations(
   return { ...paragraph, runs: nextRuns };
 }
 
+/**
+ * Runs rebuilt from inline-markup segments: each segment takes the style of the
+ * source run it names, wherever it now sits in the paragraph.
+ */
+export function reorderRuns<T extends { text: string }>(runs: T[], segments: { index: number; text: string }[]): T[] {
+  const out = segments.filter((s) => runs[s.index]).map((s) => ({ ...runs[s.index], text: s.text }));
+  return out.length ? out : runs;
+}
+
+export function styleTranslatedFont(font: FontSnapshot, style: BilingualStyle): FontSnapshot {
+  const pct = Math.min(100, Math.max(30, Number(style.sizePercent) || 100));
+  return {
+    ...font,
+    italic: style.italic || font.italic,
+    color: style.color || font.color,
+    size: font.size ? Math.round((font.size * pct) / 50) / 2 : font.size // half-point steps
+  };
+}
+
+/**
+ * Swaps the font name of runs containing `pattern` characters; every other
+ * attribute (bold, italic, size…) is kept. Runs without a captured font are left alone.
+ */
+export function substituteRunFonts<T extends { text: string; font?: any }>(
+  runs: T[],
+  fontName: string,
+  pattern: RegExp,
+  onReplace: (from: string) => void
+): T[] {
+  return runs.map((r) => {
+    if (!r.font || r.font.name === fontName || !pattern.test(r.text)) return r;
+    onReplace(r.font.name || "?");
+    return { ...r, font: { ...r.font, name: fontName } };
+  });
+}
+
+export function mirrorAlignment(alignment: string | null | undefined, sourceRtl: boolean): string {
+  const current = alignment ?? (sourceRtl ? "Right" : "Left");
+  if (current === "Left") return "Right";
+  if (current === "Right") return "Left";
+  return current;
+}
+
+/** Paragraph format for a translation whose text direction differs from the source. */
+export function directedParagraphFormat(
+  format: ParagraphFormatSnapshot | undefined,
+  sourceRtl: boolean,
+  targetRtl: boolean
+): ParagraphFormatSnapshot | undefined {
+  if (sourceRtl === targetRtl) return format;
+  return {
+    ...format,
+    horizontalAlignment: mirrorAlignment(format?.horizontalAlignment, sourceRtl),
+    rightToLeft: targetRtl
+  };
+}
+
+// Paragraph direction is not part of PowerPointApi <= 1.10: only set it on hosts
+// whose ParagraphFormat exposes it. Bullets follow the paragraph direction.
+function queueTextDirection(format: PowerPoint.ParagraphFormat, rightToLeft: boolean) {
+  const pf = format as any;
+  if (!("textDirection" in pf)) return;
+  try {
+    pf.textDirection = rightToLeft ? "RightToLeft" : "LeftToRight";
+  } catch {
+    // ignore
+  }
+}
+
 export function queueParagraphFormats(
   fullRange: PowerPoint.TextRange,
   paragraphs: { start: number; length: number; format?: ParagraphFormatSnapshot }[]
@@ -323,6 +433,10 @@ export function queueParagraphFormats(
       // ignore
     }
 
+    if (p.format.rightToLeft !== undefined) {
+      queueTextDirection(r.paragraphFormat, p.format.rightToLeft);
+    }
+
     try {
       if (p.format.indentLevel !== undefined) {
         (r.paragraphFormat as any).indentLevel = p.format.indentLevel;
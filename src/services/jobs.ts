@@ -0,0 +1,37 @@
+import type { Settings } from "../utils/types";
+import { loadDocumentValue, saveDocumentValue } from "./storage";
+
+const JOB_KEY = "slideTranslate.job.v1";
+// Document settings are stored inside the file: keep the record bounded.
+const MAX_CACHED_TRANSLATIONS = 3000;
+
+export interface CachedTranslation {
+  translatedRuns: { index: number; text: string }[];
+  reordered?: boolean;
+}
+
+/** An unfinished translation run, saved after every slide so that it can be resumed. */
+export interface TranslationJob {
+  startedAt: string;
+  updatedAt: string;
+  settings: Settings; // never holds the API key nor the proxy token
+  slideIds: string[]; // ids, not indices: slides may be moved between sessions
+  completed: string[];
+  cache: [string, CachedTranslation][];
+}
+
+export function loadJob(): TranslationJob | null {
+  const job = loadDocumentValue<TranslationJob>(JOB_KEY);
+  return job && Array.isArray(job.slideIds) && Array.isArray(job.completed) ? job : null;
+}
+
+export async function saveJob(job: TranslationJob, cache?: Map<string, CachedTranslation>): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  job.settings = { ...job.settings, apiKey: "", proxyToken: "" };
+  if (cache) job.cache = [...cache].slice(-MAX_CACHED_TRANSLATIONS);
+  await saveDocumentValue(JOB_KEY, job);
+}
+
+export async function clearJob(): Promise<void> {
+  await saveDocumentValue(JOB_KEY, null);
+}
@@ -0,0 +1,32 @@
+import type { TranslationProvider } from "./providers";
+
+/**
+ * Offline provider: tags the first translatable run of each paragraph with the
+ * target language and echoes everything else. Handy to check layout and the
+ * apply path without spending tokens.
+ */
+export const mockProvider: TranslationProvider = {
+  id: "mock",
+  label: "Mock (hors ligne)",
+  defaultModel: "mock",
+  needsApiKey: false,
+
+  async test() {
+    // always available
+  },
+
+  async translate(items, settings) {
+    const tag = `[${settings.toLang.toUpperCase()}] `;
+    return items.map((item) => {
+      let tagged = false;
+      return {
+        paragraphId: item.paragraphId,
+        translatedRuns: item.runs.map((r) => {
+          if (tagged || !r.text.trim()) return { index: r.index, text: r.text };
+          tagged = true;
+          return { index: r.index, text: `${tag}${r.text}` };
+        })
+      };
+    });
+  }
+};
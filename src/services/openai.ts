@@ -1,18 +1,54 @@
 import type { Settings, TranslationResult } from "../utils/types";
+import type { TranslationProvider } from "./providers";
 import { labelFor } from "../utils/language";
 
-const MODEL_NAME = "gpt-5-nano";
+const DEFAULT_MODEL = "gpt-5-nano";
+const RESPONSES_URL = "https://api.openai.com/v1/responses";
 
 export class OpenAIError extends Error {
   constructor(
     message: string,
     public status?: number,
-    public detail?: unknown
+    public detail?: unknown,
+    public retryAfterMs?: number
   ) {
     super(message);
   }
 }
 
+/** Parses a `Retry-After` header (seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+export interface TranslateBatchItem {
+  paragraphId: string;
+  originalChars: number;
+  runs: { index: number; text: string }[];
+  /** Set on follow-up requests: why the previous answer for this item was rejected. */
+  issue?: string;
+  /** Length budget for the whole translated paragraph, set when length fitting is on. */
+  maxChars?: number;
+  /** Single run holding the whole paragraph with inline <rN> tags (see `utils/markup`). */
+  markup?: boolean;
+  /** Read-only hints to disambiguate short labels. Never translated nor applied. */
+  context?: TranslateItemContext;
+}
+
+export interface TranslateItemContext {
+  slideTitle?: string;
+  shapePath?: string;
+  previous?: string;
+  next?: string;
+  columnHeader?: string;
+  rowHeader?: string;
+}
+
 function extractOutputText(resp: any): string {
   const chunks: string[] = [];
   const outputs = resp?.output;
@@ -31,98 +67,88 @@ function extractOutputText(resp: any): string {
   return chunks.join("\n").trim();
 }
 
+function extractChatText(resp: any): string {
+  const content = resp?.choices?.[0]?.message?.content;
+  if (typeof content === "string") return content.trim();
+  if (Array.isArray(content)) {
+    return content
+      .map((c: any) => (typeof c?.text === "string" ? c.text : ""))
+      .join("")
+      .trim();
+  }
+  return "";
+}
+
 function parseGlossary(g: Record<string, string>): string {
   const keys = Object.keys(g);
   if (keys.length === 0) return "";
   return `\nGlossaire (prioritaire) :\n${keys.map((k) => `- ${k} => ${g[k]}`).join("\n")}`;
 }
 
-export async function testOpenAIKey(settings: Settings): Promise<void> {
-  if (!settings.apiKey) throw new OpenAIError("Aucune clé API.");
-
-  const res = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${settings.apiKey}`
-    },
-    body: JSON.stringify({
-      model: MODEL_NAME,
-      input: "Reply with the single word OK.",
-      store: false
-    })
-  });
-
-  const json = await res.json().catch(() => ({}));
-  if (!res.ok) {
-    throw new OpenAIError((json?.error?.message as string) || "Erreur OpenAI", res.status, json);
-  }
-
-  const out = extractOutputText(json);
-  if (!out.toLowerCase().includes("ok")) {
-    throw new OpenAIError("La clé a répondu, mais la réponse n'est pas attendue.", res.status, json);
-  }
-}
-
-export interface TranslateBatchItem {
-  paragraphId: string;
-  originalChars: number;
-  runs: { index: number; text: string }[];
-}
-
-export async function translateBatch(items: TranslateBatchItem[], settings: Settings): Promise<TranslationResult[]> {
-  if (!settings.apiKey) throw new OpenAIError("Aucune clé API.");
-  if (!items.length) return [];
+export const TRANSLATION_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    items: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          paragraphId: { type: "string" },
+          translatedRuns: {
+            type: "array",
+            items: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                index: { type: "integer" },
+                text: { type: "string" }
+              },
+              required: ["index", "text"]
+            }
+          }
+        },
+        required: ["paragraphId", "translatedRuns"]
+      }
+    }
+  },
+  required: ["items"]
+} as const;
 
+export function buildInstructions(settings: Settings): string {
   const fromLabel = settings.fromLang === "auto" ? "auto" : labelFor(settings.fromLang);
   const toLabel = labelFor(settings.toLang);
   const fit = settings.fitToLength ? settings.fitStrength : 0;
 
-  const schema = {
-    type: "object",
-    additionalProperties: false,
-    properties: {
-      items: {
-        type: "array",
-        items: {
-          type: "object",
-          additionalProperties: false,
-          properties: {
-            paragraphId: { type: "string" },
-            translatedRuns: {
-              type: "array",
-              items: {
-                type: "object",
-                additionalProperties: false,
-                properties: {
-                  index: { type: "integer" },
-                  text: { type: "string" }
-                },
-                required: ["index", "text"]
-              }
-            }
-          },
-          required: ["paragraphId", "translatedRuns"]
-        }
-      }
-    },
-    required: ["items"]
-  } as const;
-
-  const instructions = [
+  return [
     "You are a high-precision translation engine for PowerPoint.",
     `Translate from ${fromLabel} to ${toLabel}.`,
     "CRITICAL: Keep the number of runs exactly the same for each paragraph and keep them in the same order.",
     "Return translated text per run index. Do not reorder runs.",
     "Preserve leading/trailing whitespace of each run exactly.",
+    settings.inlineMarkup
+      ? "Items with `markup: true` have a single run holding the whole paragraph, where styled words are wrapped in tags like <r2>…</r2>: keep every tag pair exactly once around the words it marks, move it with those words to wherever they belong in the translated sentence, never nest, add or rename tags, and keep &amp; &lt; &gt; escaped."
+      : "",
+    "If an item has an `issue` field, your previous answer for it was rejected for that reason: fix it.",
+    "An item may carry a read-only `context` (slide title, shape path, neighbouring paragraphs, table headers): use it only to pick the right meaning; never translate it or return it.",
     "Do NOT translate protected tokens like {0}, {{name}}, %s, URLs, email addresses, or product codes; keep them unchanged.",
+    "Placeholders like ⟦0⟧ stand for protected content: copy each one exactly once, unchanged, into the same run.",
     settings.fitToLength
-      ? `Try to keep total paragraph length close to original. Strength: ${fit}% (higher=closer).`
+      ? `Try to keep total paragraph length close to original. Strength: ${fit}% (higher=closer). When an item has \`maxChars\`, the translated paragraph (all runs together) must not be longer than that.`
       : "Length fitting is disabled; prioritize best translation.",
     parseGlossary(settings.glossary)
-  ].join("\n");
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function buildPayload(items: TranslateBatchItem[], settings: Settings) {
+  const fromLabel = settings.fromLang === "auto" ? "auto" : labelFor(settings.fromLang);
+  const toLabel = labelFor(settings.toLang);
+  const fit = settings.fitToLength ? settings.fitStrength : 0;
 
-  const payload = {
+  return {
     task: "translate_powerpoint_text",
     from: fromLabel,
     to: toLabel,
@@ -133,49 +159,151 @@ export async function translateBatch(items: TranslateBatchItem[], settings: Sett
     glossary: settings.glossary,
     items
   };
+}
+
+export function parseTranslationOutput(out: string, status: number, raw: unknown): TranslationResult[] {
+  if (!out) throw new OpenAIError("Réponse vide du modèle.", status, raw);
+
+  // Local models often wrap JSON in a markdown fence despite the schema.
+  const cleaned = out.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    throw new OpenAIError("Impossible de parser la sortie JSON du modèle.", status, { out, raw });
+  }
+
+  if (!parsed?.items || !Array.isArray(parsed.items)) {
+    throw new OpenAIError("Sortie JSON inattendue.", status, parsed);
+  }
 
-  const res = await fetch("https://api.openai.com/v1/responses", {
+  return parsed.items as TranslationResult[];
+}
+
+function authHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return headers;
+}
+
+async function postJSON(
+  url: string,
+  apiKey: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<{ status: number; json: any }> {
+  const res = await fetch(url, {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${settings.apiKey}`
-    },
-    body: JSON.stringify({
-      model: MODEL_NAME,
+    headers: authHeaders(apiKey),
+    body: JSON.stringify(body),
+    signal
+  });
+
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new OpenAIError(
+      (json?.error?.message as string) || "Erreur OpenAI",
+      res.status,
+      json,
+      parseRetryAfter(res.headers.get("retry-after"))
+    );
+  }
+  return { status: res.status, json };
+}
+
+function chatCompletionsUrl(baseUrl: string): string {
+  const base = baseUrl.trim().replace(/\/+$/, "");
+  if (!base) throw new OpenAIError("Aucune URL d'endpoint compatible OpenAI.");
+  return base.endsWith("/chat/completions") ? base : `${base}/chat/completions`;
+}
+
+export const openAIResponsesProvider: TranslationProvider = {
+  id: "openai",
+  label: "OpenAI (Responses)",
+  defaultModel: DEFAULT_MODEL,
+  needsApiKey: true,
+
+  async test(settings) {
+    if (!settings.apiKey) throw new OpenAIError("Aucune clé API.");
+
+    const { status, json } = await postJSON(RESPONSES_URL, settings.apiKey, {
+      model: settings.model || DEFAULT_MODEL,
+      input: "Reply with the single word OK.",
+      store: false
+    });
+
+    const out = extractOutputText(json);
+    if (!out.toLowerCase().includes("ok")) {
+      throw new OpenAIError("La clé a répondu, mais la réponse n'est pas attendue.", status, json);
+    }
+  },
+
+  async translate(items, settings, signal) {
+    if (!settings.apiKey) throw new OpenAIError("Aucune clé API.");
+    if (!items.length) return [];
+
+    const { status, json } = await postJSON(RESPONSES_URL, settings.apiKey, {
+      model: settings.model || DEFAULT_MODEL,
       store: false,
       input: [
-        { role: "system", content: instructions },
-        { role: "user", content: JSON.stringify(payload) }
+        { role: "system", content: buildInstructions(settings) },
+        { role: "user", content: JSON.stringify(buildPayload(items, settings)) }
       ],
       text: {
         format: {
           type: "json_schema",
           name: "ppt_translation",
           strict: true,
-          schema
+          schema: TRANSLATION_SCHEMA
         }
       }
-    })
-  });
+    }, signal);
 
-  const json = await res.json().catch(() => ({}));
-  if (!res.ok) {
-    throw new OpenAIError((json?.error?.message as string) || "Erreur OpenAI", res.status, json);
+    return parseTranslationOutput(extractOutputText(json), status, json);
   }
+};
 
-  const out = extractOutputText(json);
-  if (!out) throw new OpenAIError("Réponse vide du modèle.", res.status, json);
+export const openAICompatibleProvider: TranslationProvider = {
+  id: "openaiCompatible",
+  label: "Compatible OpenAI (chat/completions)",
+  defaultModel: "",
+  needsApiKey: false,
 
-  let parsed: any;
-  try {
-    parsed = JSON.parse(out);
-  } catch {
-    throw new OpenAIError("Impossible de parser la sortie JSON du modèle.", res.status, { out, raw: json });
-  }
+  async test(settings) {
+    if (!settings.model) throw new OpenAIError("Aucun modèle renseigné.");
 
-  if (!parsed?.items || !Array.isArray(parsed.items)) {
-    throw new OpenAIError("Sortie JSON inattendue.", res.status, parsed);
-  }
+    const { status, json } = await postJSON(chatCompletionsUrl(settings.baseUrl), settings.apiKey, {
+      model: settings.model,
+      messages: [{ role: "user", content: "Reply with the single word OK." }]
+    });
 
-  return parsed.items as TranslationResult[];
-}
+    const out = extractChatText(json);
+    if (!out.toLowerCase().includes("ok")) {
+      throw new OpenAIError("L'endpoint a répondu, mais la réponse n'est pas attendue.", status, json);
+    }
+  },
+
+  async translate(items, settings, signal) {
+    if (!settings.model) throw new OpenAIError("Aucun modèle renseigné.");
+    if (!items.length) return [];
+
+    const { status, json } = await postJSON(chatCompletionsUrl(settings.baseUrl), settings.apiKey, {
+      model: settings.model,
+      messages: [
+        { role: "system", content: buildInstructions(settings) },
+        { role: "user", content: JSON.stringify(buildPayload(items, settings)) }
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "ppt_translation",
+          strict: true,
+          schema: TRANSLATION_SCHEMA
+        }
+      }
+    }, signal);
+
+    return parseTranslationOutput(extractChatText(json), status, json);
+  }
+};
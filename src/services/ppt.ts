@@ -1,14 +1,38 @@
-import type { FontSnapshot, Paragraph, Settings, SlideAnalysis, TranslationResult } from "../utils/types";
-import type { TranslateBatchItem } from "./openai";
+import type { FontSnapshot, Paragraph, ParagraphFormatSnapshot, Settings, SlideAnalysis, TranslationResult } from "../utils/types";
+import type { TranslateBatchItem, TranslateItemContext } from "./openai";
+import { buildInstructions, buildPayload } from "./openai";
 import { Logger } from "./logger";
-import { translateBatch } from "./openai";
+import { getProvider, resolveModel, translateBatch } from "./providers";
 import {
   applyRunTranslations,
-  extractShapeTextParagraphs,
+  directedParagraphFormat,
+  extractParagraphsBatch,
+  isApiSupported,
+  selectRunsInRange,
+  mirrorAlignment,
   queueFontRuns,
-  queueParagraphFormats
+  queueParagraphFormats,
+  reorderRuns,
+  styleTranslatedFont,
+  substituteRunFonts
 } from "./formatting";
-import { isNonTranslatable } from "../utils/text";
+import { countWords, hashText, isNonTranslatable, lengthBudget, preserveWhitespace } from "../utils/text";
+import { isRtlLanguage, looksRtl, scriptForLanguage } from "../utils/language";
+import { parseSlideRange } from "../utils/range";
+import { isHiddenSlideExport } from "../utils/pptx";
+import type { CellSnapshot, ShapeSnapshot, SlideSnapshot } from "./snapshots";
+import { forgetSnapshotEntries, loadSlideSnapshot, saveSlideSnapshot } from "./snapshots";
+import { compileProtectedPatterns, maskRuns, stripPlaceholders, unmaskRuns } from "../utils/masking";
+import type { RetryOptions } from "./retry";
+import { DEFAULT_RETRY, classifyError, errorMessage, isAbortError, withRetry } from "./retry";
+import { validateResults } from "./validation";
+import { markupRuns, toMarkup } from "../utils/markup";
+import type { CostEstimate } from "../utils/pricing";
+import { estimateCost, estimateTokens } from "../utils/pricing";
+import type { CachedTranslation, TranslationJob } from "./jobs";
+import { clearJob, saveJob } from "./jobs";
+import type { FrameGeometry, SizedSpan } from "../utils/overflow";
+import { availableHeight, estimateTextHeight, shrinkSize, shrinkToFit } from "../utils/overflow";
 
 export interface ShapeTextTarget {
   kind: "shapeText";
@@ -17,6 +41,7 @@ export interface ShapeTextTarget {
   groupPath: string[];
   shapePath?: string;
   paragraphs: Paragraph[];
+  selectedRuns?: Record<string, number[]>; // "selection" scope on highlighted text: only these runs are sent
 }
 
 export interface TableRunSnapshot {
@@ -35,20 +60,205 @@ export interface TableCellTarget {
   paragraphId: string;
   originalChars: number;
   runs: TableRunSnapshot[];
+  horizontalAlignment?: string | null;
+}
+
+export interface AltTextTarget {
+  kind: "altText";
+  shapeId: string;
+  shapeName: string;
+  groupPath: string[];
+  shapePath?: string;
+  field: "altTextTitle" | "altTextDescription";
+  paragraphId: string;
+  text: string;
+}
+
+export interface NotesTextTarget {
+  kind: "notesText";
+  shapeId: string;
+  shapeName: string;
+  paragraphs: Paragraph[];
 }
 
 export interface SlideTargets {
   slideIndex: number;
+  slideTitle?: string;
   shapeTextTargets: ShapeTextTarget[];
   tableCellTargets: TableCellTarget[];
+  notesTextTargets: NotesTextTarget[];
+  altTextTargets: AltTextTarget[];
+  approvedIds?: Set<string>; // "update" mode: paragraphs already translated and unchanged since
+}
+
+// Tags set on slides created by "copy" mode.
+export const COPY_SOURCE_TAG = "SLIDETRANSLATE_SOURCE";
+export const COPY_LANG_TAG = "SLIDETRANSLATE_LANG";
+
+// Slide tag: per target language, hashes of the texts written by previous runs
+// (source and translation). "update" runs only send paragraphs not listed there.
+export const HASH_TAG = "SLIDETRANSLATE_HASHES";
+const MAX_HASHES_PER_LANG = 2000;
+
+type HashTagValue = Record<string, string[]>;
+
+function paragraphHash(text: string): string {
+  return hashText(text.trim());
+}
+
+function parseHashTag(tag: PowerPoint.Tag): HashTagValue {
+  if (tag.isNullObject || !tag.value) return {};
+  try {
+    const parsed = JSON.parse(tag.value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as HashTagValue) : {};
+  } catch {
+    return {};
+  }
+}
+
+function approvedParagraphIds(targets: SlideTargets, hashes: Set<string>): Set<string> {
+  const approved = new Set<string>();
+  const check = (id: string, text: string) => {
+    if (hashes.has(paragraphHash(text))) approved.add(id);
+  };
+  for (const t of [...targets.shapeTextTargets, ...targets.notesTextTargets]) {
+    for (const p of t.paragraphs) check(p.id, runsText(p.runs));
+  }
+  for (const t of targets.tableCellTargets) check(t.paragraphId, runsText(t.runs));
+  for (const t of targets.altTextTargets) check(t.paragraphId, t.text);
+  return approved;
+}
+
+/**
+ * Duplicates the given slides (right after each original, or at the end of
+ * the deck) and tags every copy with its source slide and target language.
+ * Returns the indices of the copies, in source order. Slides that already are
+ * translated copies are left alone.
+ */
+export async function duplicateSlidesForTranslation(
+  indices: number[],
+  settings: Settings,
+  logger?: Logger
+): Promise<number[]> {
+  if (!isApiSupported("1.8")) {
+    throw new Error("Le mode copie nécessite PowerPointApi 1.8 (export/insert de slides).");
+  }
+
+  return PowerPoint.run(async (context) => {
+    const slides = context.presentation.slides;
+    slides.load("items/id");
+    await context.sync();
+
+    const sources = indices.map((i) => slides.items[i]).filter(Boolean);
+    const sourceTags = sources.map((s) => s.tags.getItemOrNullObject(COPY_SOURCE_TAG));
+    for (const t of sourceTags) t.load("isNullObject");
+    await context.sync();
+
+    const copyIds: string[] = [];
+    let lastId = slides.items[slides.items.length - 1]?.id;
+
+    for (let i = 0; i < sources.length; i++) {
+      const source = sources[i];
+      if (!sourceTags[i].isNullObject) {
+        logger?.log(`Slide ${indices[i] + 1} est déjà une copie traduite — ignorée.`, "dim");
+        continue;
+      }
+
+      const exported = source.exportAsBase64();
+      slides.load("items/id");
+      await context.sync();
+      const before = new Set(slides.items.map((s) => s.id));
+
+      context.presentation.insertSlidesFromBase64(exported.value, {
+        formatting: PowerPoint.InsertSlideFormatting.keepSourceFormatting,
+        targetSlideId: settings.copyPlacement === "end" ? lastId : source.id
+      });
+      slides.load("items/id");
+      await context.sync();
+
+      const copy = slides.items.find((s) => !before.has(s.id));
+      if (!copy) {
+        logger?.log(`Slide ${indices[i] + 1}: copie introuvable après insertion.`, "warn");
+        continue;
+      }
+      copy.tags.add(COPY_SOURCE_TAG, source.id);
+      copy.tags.add(COPY_LANG_TAG, settings.toLang);
+      copyIds.push(copy.id);
+      // Keep copies in source order when they all go to the end.
+      if (settings.copyPlacement === "end") lastId = copy.id;
+    }
+
+    slides.load("items/id");
+    await context.sync();
+    const indexById = new Map(slides.items.map((s, idx) => [s.id, idx]));
+    return copyIds.map((id) => indexById.get(id)).filter((idx): idx is number => idx !== undefined);
+  });
+}
+
+export interface SelectionFilter {
+  slideIndex: number;
+  shapeIds: Set<string>; // a selected group covers every shape inside it
+  textRange?: { shapeId: string; start: number; length: number };
+}
+
+/** What is selected on the active slide: shapes, or highlighted text in one shape. */
+export async function getSelectionFilter(): Promise<SelectionFilter> {
+  if (!isApiSupported("1.5")) {
+    throw new Error("La traduction de la sélection nécessite PowerPointApi 1.5.");
+  }
+
+  return PowerPoint.run(async (context) => {
+    const slides = context.presentation.getSelectedSlides();
+    slides.load("items/index");
+    const shapes = context.presentation.getSelectedShapes();
+    shapes.load("items/id");
+    const range = context.presentation.getSelectedTextRangeOrNullObject();
+    range.load("isNullObject,start,length");
+    await context.sync();
+
+    const filter: SelectionFilter = {
+      slideIndex: slides.items[0]?.index ?? 0,
+      shapeIds: new Set(shapes.items.map((s) => s.id))
+    };
+
+    if (!range.isNullObject && range.length > 0) {
+      const parent = range.getParentTextFrame().getParentShape();
+      parent.load("id");
+      await context.sync();
+      filter.shapeIds.add(parent.id);
+      filter.textRange = { shapeId: parent.id, start: range.start, length: range.length };
+    }
+
+    if (!filter.shapeIds.size) throw new Error("Aucune forme ni aucun texte sélectionné.");
+    return filter;
+  });
 }
 
-export async function getSlideIndices(scope: Settings["scope"]): Promise<number[]> {
+/** Ids of every slide, in deck order. */
+export async function getSlideIds(): Promise<string[]> {
   return PowerPoint.run(async (context) => {
-    if (scope === "all") {
+    const slides = context.presentation.slides;
+    slides.load("items/id");
+    await context.sync();
+    return slides.items.map((s) => s.id);
+  });
+}
+
+export type SlideFilters = Pick<Settings, "slideRange" | "skipHidden" | "onlyTag">;
+
+export async function getSlideIndices(
+  scope: Settings["scope"],
+  filters?: SlideFilters,
+  logger?: Logger
+): Promise<number[]> {
+  const indices = await PowerPoint.run(async (context) => {
+    if (scope === "all" || scope === "range") {
       const count = context.presentation.slides.getCount();
       await context.sync();
-      return Array.from({ length: count.value }, (_, i) => i);
+      if (scope === "all") return Array.from({ length: count.value }, (_, i) => i);
+      const parsed = parseSlideRange(filters?.slideRange ?? "", count.value);
+      if ("error" in parsed) throw new Error(parsed.error);
+      return parsed.indices;
     }
 
     const selected = context.presentation.getSelectedSlides();
@@ -58,7 +268,9 @@ export async function getSlideIndices(scope: Settings["scope"]): Promise<number[
     if (selectedCount.value > 0) {
       selected.load("items/index");
       await context.sync();
-      return selected.items.map((s) => s.index);
+      // Selected shapes always belong to the active slide (the first one).
+      const indices = selected.items.map((s) => s.index);
+      return scope === "selection" ? indices.slice(0, 1) : indices;
     }
 
     const active = context.presentation.getActiveSlideOrNullObject();
@@ -68,6 +280,63 @@ export async function getSlideIndices(scope: Settings["scope"]): Promise<number[
     if (!active.isNullObject) return [active.index];
     return [0];
   });
+
+  return filters && (scope === "all" || scope === "range") ? filterSlides(indices, filters, logger) : indices;
+}
+
+function parseTagFilter(expr: string): { name: string; value?: string } | null {
+  const raw = expr.trim();
+  if (!raw) return null;
+  const idx = raw.indexOf("=");
+  // Office stores tag names upper-case.
+  if (idx < 0) return { name: raw.toUpperCase() };
+  return { name: raw.slice(0, idx).trim().toUpperCase(), value: raw.slice(idx + 1).trim() };
+}
+
+async function filterSlides(indices: number[], filters: SlideFilters, logger?: Logger): Promise<number[]> {
+  const tag = parseTagFilter(filters.onlyTag);
+  let skipHidden = filters.skipHidden;
+  if (skipHidden && !isApiSupported("1.8")) {
+    logger?.log("Filtre des slides masquées indisponible (PowerPointApi 1.8 requis) — ignoré.", "warn");
+    skipHidden = false;
+  }
+  if (!tag && !skipHidden) return indices;
+
+  return PowerPoint.run(async (context) => {
+    const slides = context.presentation.slides;
+    let kept = indices;
+
+    if (tag) {
+      const tags = kept.map((i) => slides.getItemAt(i).tags.getItemOrNullObject(tag.name));
+      for (const t of tags) t.load("isNullObject,value");
+      await context.sync();
+      const next = kept.filter((_, n) => {
+        const t = tags[n];
+        if (t.isNullObject) return false;
+        return tag.value === undefined || (t.value ?? "").toLowerCase() === tag.value.toLowerCase();
+      });
+      if (next.length < kept.length) {
+        logger?.log(`${kept.length - next.length} slide(s) sans le tag ${filters.onlyTag.trim()} ignorée(s).`, "dim");
+      }
+      kept = next;
+    }
+
+    if (skipHidden) {
+      // Visibility is not exposed by Office.js: read it from each slide's export.
+      const next: number[] = [];
+      for (const i of kept) {
+        const exported = slides.getItemAt(i).exportAsBase64();
+        await context.sync();
+        if (!(await isHiddenSlideExport(exported.value))) next.push(i);
+      }
+      if (next.length < kept.length) {
+        logger?.log(`${kept.length - next.length} slide(s) masquée(s) ignorée(s).`, "dim");
+      }
+      kept = next;
+    }
+
+    return kept;
+  });
 }
 
 function compileIgnoreRegex(pattern: string): RegExp | null {
@@ -132,6 +401,94 @@ async function getGroupChildShapes(
   return [];
 }
 
+// None of these is in the published PowerPoint API yet: probe for them instead of assuming.
+const NOTES_PROPERTIES = ["notesSlide", "notesPage", "notes"];
+
+/** Whether this host's PowerPoint API exposes speaker notes at all. */
+export function notesSupported(): boolean {
+  const proto = typeof PowerPoint === "undefined" ? undefined : (PowerPoint.Slide?.prototype as any);
+  return Boolean(proto) && NOTES_PROPERTIES.some((p) => p in proto);
+}
+
+function checkNotesSupport(settings: Settings, logger?: Logger): Settings {
+  if (!settings.includeNotes || notesSupported()) return settings;
+  logger?.log("Notes du présentateur non prises en charge par cet hôte PowerPoint : option ignorée.", "warn");
+  return { ...settings, includeNotes: false };
+}
+
+async function getNotesShapes(
+  context: PowerPoint.RequestContext,
+  slide: PowerPoint.Slide,
+  slideIndex: number,
+  logger?: Logger
+): Promise<PowerPoint.Shape[]> {
+  if (!notesSupported()) return [];
+
+  for (const property of NOTES_PROPERTIES) {
+    try {
+      const collection = (slide as any)[property]?.shapes;
+      const items = await loadShapesCollection(context, collection);
+      if (items.length) return items;
+    } catch {
+      // try next candidate
+    }
+  }
+
+  logger?.log(`Slide ${slideIndex + 1}: notes non accessibles`, "dim");
+  return [];
+}
+
+async function loadNotesTextFrames(
+  context: PowerPoint.RequestContext,
+  slide: PowerPoint.Slide,
+  slideIndex: number,
+  logger?: Logger
+): Promise<Array<{ shape: PowerPoint.Shape; textFrame: PowerPoint.TextFrame }>> {
+  const shapes = await getNotesShapes(context, slide, slideIndex, logger);
+  if (!shapes.length) return [];
+
+  const frames = shapes.map((shape) => {
+    const tf = shape.getTextFrameOrNullObject();
+    tf.load("isNullObject,hasText");
+    return { shape, textFrame: tf };
+  });
+  await context.sync();
+
+  const withText = frames.filter((f) => !f.textFrame.isNullObject && f.textFrame.hasText);
+  if (!withText.length) return [];
+  for (const f of withText) f.textFrame.textRange.load("text");
+  await context.sync();
+  return withText;
+}
+
+async function extractNotesTargets(
+  context: PowerPoint.RequestContext,
+  slide: PowerPoint.Slide,
+  slideIndex: number,
+  logger?: Logger
+): Promise<NotesTextTarget[]> {
+  const frames = (await loadNotesTextFrames(context, slide, slideIndex, logger)).filter((f) =>
+    (f.textFrame.textRange.text ?? "").trim()
+  );
+  const extracted = await extractParagraphsBatch(
+    context,
+    slideIndex,
+    frames.map(({ shape, textFrame }) => ({
+      textRange: textFrame.textRange,
+      shapeId: `notes${shape.id}`,
+      text: textFrame.textRange.text ?? ""
+    }))
+  );
+
+  const out: NotesTextTarget[] = [];
+  frames.forEach(({ shape }, k) => {
+    const paragraphs = extracted[k];
+    if (!paragraphs.some((p) => p.runs.some((r) => r.text.trim().length > 0))) return;
+    out.push({ kind: "notesText", shapeId: shape.id, shapeName: shape.name ?? "", paragraphs });
+  });
+  return out;
+}
+
 async function walkShapeItems(
   context: PowerPoint.RequestContext,
   items: PowerPoint.Shape[],
@@ -188,65 +545,117 @@ async function buildShapeIndex(
   return map;
 }
 
-export async function analyzeScope(settings: Settings, logger?: Logger): Promise<SlideAnalysis[]> {
-  const indices = await getSlideIndices(settings.scope);
-  const ignore = compileIgnoreRegex(settings.ignoreRegex);
-
-  const out: SlideAnalysis[] = [];
-
-  for (const slideIndex of indices) {
-    const analysis = await PowerPoint.run(async (context) => {
-      const slide = context.presentation.slides.getItemAt(slideIndex);
-
-      let textBoxes = 0;
-      let tables = 0;
-      let paragraphs = 0;
-      let characters = 0;
-
-      await walkShapes(context, slide.shapes, ignore, undefined, async (shape) => {
-        if ((shape.type as any) === PowerPoint.ShapeType.table) {
-          tables++;
-          // Approximate: count later
-          return;
-        }
-
-        const tf = shape.getTextFrameOrNullObject();
-        tf.load("isNullObject,hasText");
-        await context.sync();
-        if (tf.isNullObject || !tf.hasText) return;
+export interface ScopeAnalysis {
+  slides: SlideAnalysis[];
+  segments: number;
+  uniqueSegments: number; // sent once: the cache reuses them for the repeats
+  repeatedSegments: number;
+  words: number;
+  characters: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: CostEstimate | null; // null: no known price for this provider / model
+}
 
-        tf.textRange.load("text");
-        await context.sync();
-        const text = tf.textRange.text ?? "";
-        if (!text.trim()) return;
-        textBoxes++;
-        const ps = text.split("\n");
-        paragraphs += ps.length;
-        characters += text.length;
-      });
+/** Text a segment stands for, without markup tags (placeholders stay). */
+function segmentText(item: TranslateBatchItem): string {
+  const runs = item.markup ? markupRuns(item.runs[0].text, item.runs[0].index) ?? item.runs : item.runs;
+  return runsText(runs);
+}
 
-      return { slideIndex, textBoxes, tables, paragraphs, characters } as SlideAnalysis;
-    });
+/** Sizes of the requests as they would be sent; output mirrors the input runs. */
+function estimateUsage(chunks: TranslateBatchItem[][], settings: Settings): { inputTokens: number; outputTokens: number } {
+  const instructions = buildInstructions(settings).length;
+  let input = 0;
+  let output = 0;
+  for (const chunk of chunks) {
+    input += instructions + JSON.stringify(buildPayload(chunk, settings)).length;
+    output += JSON.stringify({
+      items: chunk.map((item) => ({ paragraphId: item.paragraphId, translatedRuns: item.runs }))
+    }).length;
+  }
+  return { inputTokens: estimateTokens(input), outputTokens: estimateTokens(output) };
+}
 
-    out.push(analysis);
+/**
+ * Same extraction and items as a translation run (skipped shapes, approved
+ * paragraphs, protected tokens…), without calling the provider.
+ */
+export async function analyzeScope(settings: Settings, logger?: Logger): Promise<ScopeAnalysis> {
+  settings = checkNotesSupport(settings, logger);
+  const selection = settings.scope === "selection" ? await getSelectionFilter() : undefined;
+  const indices = selection ? [selection.slideIndex] : await getSlideIndices(settings.scope, settings, logger);
+  const patterns = compileSlidePatterns(settings, logger);
+
+  const slides: SlideAnalysis[] = [];
+  const prepared: PreparedSlide[] = [];
+  for (const slideIndex of indices) {
+    const targets = await extractSlideTargets(slideIndex, settings, undefined, selection);
+    const slide = prepareSlide(targets, settings, patterns);
+    prepared.push(slide);
+
+    const analysis: SlideAnalysis = {
+      slideIndex,
+      textBoxes: targets.shapeTextTargets.length,
+      tables: new Set(targets.tableCellTargets.map((t) => shapeKey(t.shapeId, t.groupPath))).size,
+      tableCells: targets.tableCellTargets.length,
+      paragraphs: targets.shapeTextTargets.reduce((a, t) => a + t.paragraphs.length, 0),
+      notesParagraphs: targets.notesTextTargets.reduce((a, t) => a + t.paragraphs.length, 0),
+      altTexts: targets.altTextTargets.length,
+      segments: slide.items.length,
+      words: slide.items.reduce((a, item) => a + countWords(segmentText(item)), 0),
+      characters: slide.items.reduce((a, item) => a + item.originalChars, 0)
+    };
+    slides.push(analysis);
     logger?.log(
-      `Slide ${slideIndex + 1} — ${analysis.textBoxes} zone(s) texte, ${analysis.tables} table(s), ${analysis.paragraphs} paragraphe(s)`,
+      `Slide ${slideIndex + 1} — ${analysis.textBoxes} zone(s) texte, ${analysis.tableCells} cellule(s) de table, ${analysis.segments} segment(s), ${analysis.words} mot(s)` +
+        (settings.includeNotes ? `, ${analysis.notesParagraphs} paragraphe(s) de notes` : ""),
       "dim"
     );
   }
 
-  return out;
+  const items = prepared.flatMap((p) => p.items);
+  const unique = new Map<string, TranslateBatchItem>();
+  for (const item of items) {
+    const key = translateKey(item);
+    if (!unique.has(key)) unique.set(key, item);
+  }
+  const chunks = settings.deckBatching && prepared.length > 1
+    ? chunkByChars([...unique.values()])
+    : perSlideChunks(prepared, new Map());
+  const usage = estimateUsage(chunks, settings);
+  // DeepL bills the characters sent, once per distinct segment.
+  const sentChars = [...unique.values()].reduce((a, item) => a + segmentText(item).length, 0);
+
+  return {
+    slides,
+    segments: items.length,
+    uniqueSegments: unique.size,
+    repeatedSegments: items.length - unique.size,
+    words: slides.reduce((a, s) => a + s.words, 0),
+    characters: slides.reduce((a, s) => a + s.characters, 0),
+    requests: chunks.length,
+    ...usage,
+    cost: estimateCost(getProvider(settings).id, resolveModel(settings), { ...usage, characters: sentChars })
+  };
 }
 
 export async function extractSlideTargets(
   slideIndex: number,
   settings: Settings,
-  logger?: Logger
+  logger?: Logger,
+  selection?: SelectionFilter
 ): Promise<SlideTargets> {
   const ignore = compileIgnoreRegex(settings.ignoreRegex);
+  const isSelected = (shapeId: string, groupPath: string[]) =>
+    !selection || selection.shapeIds.has(shapeId) || groupPath.some((id) => selection.shapeIds.has(id));
 
   return PowerPoint.run(async (context) => {
+    const startedAt = Date.now();
     const slide = context.presentation.slides.getItemAt(slideIndex);
+    const hashTag = settings.mode === "update" ? slide.tags.getItemOrNullObject(HASH_TAG) : null;
+    hashTag?.load("isNullObject,value");
 
     const shapeTextTargets: ShapeTextTarget[] = [];
     const tableCellTargets: TableCellTarget[] = [];
@@ -258,7 +667,10 @@ export async function extractSlideTargets(
       groupPath: string[];
       textRange: PowerPoint.TextRange;
       textFrame: PowerPoint.TextFrame;
+      placeholder?: PowerPoint.PlaceholderFormat;
+      selected: boolean; // unselected candidates are only kept to find the slide title
     }> = [];
+    const wantsPlaceholders = isApiSupported("1.8");
     const tableShapes: Array<{
       shapeId: string;
       shapeName: string;
@@ -266,14 +678,31 @@ export async function extractSlideTargets(
       groupPath: string[];
       table: PowerPoint.Table;
     }> = [];
+    const altShapes: Array<{
+      shapeId: string;
+      shapeName: string;
+      shapePath: string;
+      shapeRef: string;
+      groupPath: string[];
+      shape: PowerPoint.Shape;
+    }> = [];
+    const wantsAltText = settings.translateAltText && isApiSupported("1.10");
 
     await walkShapes(context, slide.shapes, ignore, logger, async (shape, groupPath, groupNamePath) => {
       const shapeId = shape.id;
       const shapeName = shape.name ?? "";
       const shapePath = shapeLabel(shapeName, shapeId, groupNamePath);
       const shapeRef = shapeKey(shapeId, groupPath);
+      const selected = isSelected(shapeId, groupPath);
+
+      // Alt text lives on every kind of shape, text frame or not (pictures, charts…).
+      if (wantsAltText && selected) {
+        shape.load("altTextTitle,altTextDescription");
+        altShapes.push({ shapeId, shapeName, shapePath, shapeRef, groupPath: [...groupPath], shape });
+      }
 
       if ((shape.type as any) === PowerPoint.ShapeType.table) {
+        if (!selected) return;
         const table = shape.getTable();
         table.load("rowCount,columnCount");
         tableShapes.push({
@@ -288,6 +717,11 @@ export async function extractSlideTargets(
 
       const tf = shape.getTextFrameOrNullObject();
       tf.load("isNullObject,hasText");
+      let placeholder: PowerPoint.PlaceholderFormat | undefined;
+      if (wantsPlaceholders && (shape.type as any) === PowerPoint.ShapeType.placeholder) {
+        placeholder = shape.placeholderFormat;
+        placeholder.load("type");
+      }
       textCandidates.push({
         shapeId,
         shapeName,
@@ -295,14 +729,43 @@ export async function extractSlideTargets(
         shapeRef,
         groupPath: [...groupPath],
         textRange: tf.textRange,
-        textFrame: tf
+        textFrame: tf,
+        placeholder,
+        selected
       });
     });
 
-    if (textCandidates.length || tableShapes.length) {
+    if (textCandidates.length || tableShapes.length || altShapes.length) {
       await context.sync();
     }
 
+    const altTextTargets: AltTextTarget[] = [];
+    for (const entry of altShapes) {
+      const fields = [
+        ["altTextTitle", "Title"],
+        ["altTextDescription", "Desc"]
+      ] as const;
+      for (const [field, suffix] of fields) {
+        let text = "";
+        try {
+          text = entry.shape[field] ?? "";
+        } catch {
+          // property not loaded on this host
+        }
+        if (!text.trim()) continue;
+        altTextTargets.push({
+          kind: "altText",
+          shapeId: entry.shapeId,
+          shapeName: entry.shapeName,
+          groupPath: entry.groupPath,
+          shapePath: entry.shapePath,
+          field,
+          paragraphId: `s${slideIndex}_shape${entry.shapeRef}_alt${suffix}`,
+          text
+        });
+      }
+    }
+
     const cellEntries: Array<{
       shapeId: string;
       shapeName: string;
@@ -330,7 +793,7 @@ export async function extractSlideTargets(
         for (let r = 0; r < rowCount; r++) {
           for (let c = 0; c < columnCount; c++) {
             const cell = table.getCellOrNullObject(r, c);
-            cell.load("isNullObject,textRuns,text");
+            cell.load("isNullObject,textRuns,text,horizontalAlignment");
             cellEntries.push({
               shapeId: entry.shapeId,
               shapeName: entry.shapeName,
@@ -350,30 +813,38 @@ export async function extractSlideTargets(
       await context.sync();
     }
 
-    if (textCandidates.length) {
-      for (const candidate of textCandidates) {
-        if (candidate.textFrame.isNullObject || !candidate.textFrame.hasText) continue;
-        const text = candidate.textRange.text ?? "";
-        if (!text.trim()) continue;
+    // Runs and paragraph formats of every shape are loaded together, in a few syncs.
+    const textShapes = textCandidates.filter(
+      (c) => c.selected && !c.textFrame.isNullObject && c.textFrame.hasText && (c.textRange.text ?? "").trim()
+    );
+    const extracted = await extractParagraphsBatch(
+      context,
+      slideIndex,
+      textShapes.map((c) => ({ textRange: c.textRange, shapeId: c.shapeRef, text: c.textRange.text ?? "" }))
+    );
 
-        const paragraphs = await extractShapeTextParagraphs(
-          context,
-          candidate.textRange,
-          slideIndex,
-          candidate.shapeRef,
-          text
-        );
+    if (textShapes.length) {
+      for (let k = 0; k < textShapes.length; k++) {
+        const candidate = textShapes[k];
+        let paragraphs = extracted[k];
 
         const useful = paragraphs.some((p) => p.runs.some((r) => r.text.trim().length > 0));
         if (!useful) continue;
 
+        let selectedRuns: Record<string, number[]> | undefined;
+        const range = selection?.textRange;
+        if (range && range.shapeId === candidate.shapeId) {
+          ({ paragraphs, selectedRuns } = selectRunsInRange(paragraphs, range.start, range.length));
+        }
+
         shapeTextTargets.push({
           kind: "shapeText",
           shapeId: candidate.shapeId,
           shapeName: candidate.shapeName,
           groupPath: [...candidate.groupPath],
           shapePath: candidate.shapePath,
-          paragraphs
+          paragraphs,
+          selectedRuns
         });
       }
     }
@@ -403,44 +874,145 @@ export async function extractSlideTargets(
           col: entry.col,
           paragraphId: id,
           originalChars: text.length,
-          runs: runSnapshots
+          runs: runSnapshots,
+          horizontalAlignment: cellAny.horizontalAlignment ?? undefined
         });
       }
     }
 
+    const notesTextTargets = settings.includeNotes && !selection
+      ? await extractNotesTargets(context, slide, slideIndex, logger)
+      : [];
+
+    let slideTitle: string | undefined;
+    for (const candidate of textCandidates) {
+      if (candidate.textFrame.isNullObject || !candidate.textFrame.hasText) continue;
+      const type = candidate.placeholder?.type as string | undefined;
+      const isTitle =
+        type === "Title" || type === "CenterTitle" || type === "VerticalTitle" || /^(title|titre)\b/i.test(candidate.shapeName);
+      const text = (candidate.textRange.text ?? "").trim();
+      if (isTitle && text) {
+        slideTitle = text.replace(/\s+/g, " ");
+        break;
+      }
+    }
+
     logger?.log(
-      `Slide ${slideIndex + 1}: ${shapeTextTargets.length} shape(s) texte, ${tableCellTargets.length} cellule(s) de table`,
+      `Slide ${slideIndex + 1}: ${shapeTextTargets.length} shape(s) texte, ${tableCellTargets.length} cellule(s) de table` +
+        (settings.includeNotes ? `, ${notesTextTargets.length} zone(s) de notes` : "") +
+        (wantsAltText ? `, ${altTextTargets.length} texte(s) alternatif(s)` : "") +
+        ` — extraction en ${Date.now() - startedAt} ms`,
       "dim"
     );
 
-    return { slideIndex, shapeTextTargets, tableCellTargets };
+    const targets: SlideTargets = { slideIndex, slideTitle, shapeTextTargets, tableCellTargets, notesTextTargets, altTextTargets };
+    if (hashTag) {
+      const hashes = new Set(parseHashTag(hashTag)[settings.toLang] ?? []);
+      targets.approvedIds = approvedParagraphIds(targets, hashes);
+      if (targets.approvedIds.size) {
+        logger?.log(`Slide ${slideIndex + 1}: ${targets.approvedIds.size} paragraphe(s) déjà traduit(s) et inchangé(s) — ignoré(s).`, "dim");
+      }
+    }
+    return targets;
   });
 }
 
-function buildTranslateItems(targets: SlideTargets): TranslateBatchItem[] {
+const CONTEXT_MAX_CHARS = 200;
+
+function contextText(text: string | undefined): string | undefined {
+  const t = (text ?? "").replace(/\s+/g, " ").trim();
+  if (!t) return undefined;
+  return t.length > CONTEXT_MAX_CHARS ? `${t.slice(0, CONTEXT_MAX_CHARS)}…` : t;
+}
+
+function compactContext(context: TranslateItemContext): TranslateItemContext | undefined {
+  const out: TranslateItemContext = {};
+  for (const [k, v] of Object.entries(context) as [keyof TranslateItemContext, string | undefined][]) {
+    if (v) out[k] = v;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+function buildTranslateItems(
+  targets: SlideTargets,
+  patterns: RegExp[],
+  withContext = true,
+  inlineMarkup = false
+): { items: TranslateBatchItem[]; tokens: Map<string, string[]> } {
   const items: TranslateBatchItem[] = [];
+  const tokens = new Map<string, string[]>();
   const isSkippable = (runs: { text: string }[]) => runs.every((r) => isNonTranslatable(r.text));
-  for (const t of targets.shapeTextTargets) {
-    for (const p of t.paragraphs) {
-      const runs = p.runs.map((r, idx) => ({ index: idx, text: r.text }));
-      if (isSkippable(runs)) continue;
-      items.push({
-        paragraphId: p.id,
-        originalChars: p.originalCharCount,
-        runs
-      });
+  const push = (
+    paragraphId: string,
+    originalChars: number,
+    runs: { index: number; text: string }[],
+    context: TranslateItemContext,
+    markup = inlineMarkup
+  ) => {
+    if (isSkippable(runs) || targets.approvedIds?.has(paragraphId)) return;
+    const masked = maskRuns(runs, patterns);
+    // Nothing left to translate once URLs, codes… are set aside.
+    if (isSkippable(masked.runs.map((r) => ({ text: stripPlaceholders(r.text) })))) return;
+    if (masked.tokens.length) tokens.set(paragraphId, masked.tokens);
+    const item: TranslateBatchItem = { paragraphId, originalChars, runs: masked.runs };
+    const tagged = markup ? toMarkup(masked.runs) : null;
+    if (tagged) {
+      item.runs = [tagged];
+      item.markup = true;
+    }
+    if (withContext) {
+      const ctx = compactContext({ slideTitle: contextText(targets.slideTitle), ...context });
+      if (ctx) item.context = ctx;
     }
+    items.push(item);
+  };
+
+  const textTargets = [
+    ...targets.shapeTextTargets,
+    ...targets.notesTextTargets.map((t) => ({ ...t, shapePath: "Notes" }))
+  ];
+  for (const t of textTargets) {
+    const texts = t.paragraphs.map((p) => p.runs.map((r) => r.text).join(""));
+    const neighbour = (from: number, step: number) => {
+      for (let i = from + step; i >= 0 && i < texts.length; i += step) {
+        if (texts[i].trim()) return contextText(texts[i]);
+      }
+      return undefined;
+    };
+    const selectedRuns = (t as ShapeTextTarget).selectedRuns;
+    t.paragraphs.forEach((p, idx) => {
+      const only = selectedRuns ? new Set(selectedRuns[p.id] ?? []) : null;
+      const runs = p.runs.map((r, i) => ({ index: i, text: r.text })).filter((r) => !only || only.has(r.index));
+      if (!runs.length) return;
+      // Part of a paragraph cannot be reordered: selected runs keep their indices.
+      push(
+        p.id,
+        only ? runsText(runs).length : p.originalCharCount,
+        runs,
+        { shapePath: t.shapePath, previous: neighbour(idx, -1), next: neighbour(idx, 1) },
+        inlineMarkup && !only
+      );
+    });
+  }
+
+  const cellText = new Map<string, string>();
+  for (const t of targets.tableCellTargets) {
+    cellText.set(`${shapeKey(t.shapeId, t.groupPath)}:${t.row}:${t.col}`, t.runs.map((r) => r.text).join(""));
   }
   for (const t of targets.tableCellTargets) {
-    const runs = t.runs.map((r, idx) => ({ index: idx, text: r.text }));
-    if (isSkippable(runs)) continue;
-    items.push({
-      paragraphId: t.paragraphId,
-      originalChars: t.originalChars,
-      runs
+    const table = shapeKey(t.shapeId, t.groupPath);
+    push(t.paragraphId, t.originalChars, t.runs.map((r, i) => ({ index: i, text: r.text })), {
+      shapePath: t.shapePath,
+      columnHeader: t.row > 0 ? contextText(cellText.get(`${table}:0:${t.col}`)) : undefined,
+      rowHeader: t.col > 0 ? contextText(cellText.get(`${table}:${t.row}:0`)) : undefined
     });
   }
-  return items;
+  for (const t of targets.altTextTargets) {
+    push(t.paragraphId, t.text.length, [{ index: 0, text: t.text }], {
+      shapePath: `${t.shapePath || t.shapeName || t.shapeId} (texte alternatif)`
+    });
+  }
+  return { items, tokens };
 }
 
 function chunkByChars<T extends { originalChars: number }>(
@@ -482,7 +1054,116 @@ function coerceFontSnapshot(font?: any): FontSnapshot {
 }
 
 function translateKey(item: TranslateBatchItem): string {
-  return JSON.stringify(item.runs.map((r) => r.text));
+  // The slide title and table headers can change the meaning of a short label;
+  // neighbouring paragraphs are left out so that repeated text still dedupes.
+  const ctx = item.context;
+  return JSON.stringify([
+    // Markup tags name run indices: the same text with another layout is another key.
+    item.markup ? item.runs.map((r) => [r.index, r.text]) : item.runs.map((r) => r.text),
+    ctx?.slideTitle ?? "",
+    ctx?.columnHeader ?? "",
+    ctx?.rowHeader ?? ""
+  ]);
+}
+
+export interface ParagraphFailure {
+  paragraphId: string;
+  reason: string;
+}
+
+interface ChunkOutcome {
+  results: TranslationResult[];
+  failures: ParagraphFailure[];
+}
+
+const MAX_REPAIR_ROUNDS = 2;
+
+async function translateValidated(
+  chunk: TranslateBatchItem[],
+  settings: Settings,
+  logger: Logger,
+  label: string,
+  retry: RetryOptions,
+  abortSignal?: AbortSignal
+): Promise<ChunkOutcome> {
+  const call = (items: TranslateBatchItem[]) =>
+    withRetry(
+      () => translateBatch(items, settings, abortSignal),
+      retry,
+      (attempt, delayMs, e) => {
+        logger.log(
+          `Lot ${label}: ${errorMessage(e)} — nouvel essai ${attempt}/${retry.retries} dans ${Math.round(delayMs / 1000)}s`,
+          "warn"
+        );
+      },
+      abortSignal
+    );
+
+  const first = validateResults(chunk, await call(chunk));
+  if (first.unknownIds.length) {
+    logger.log(`Lot ${label}: ${first.unknownIds.length} identifiant(s) inconnu(s) ignoré(s).`, "dim");
+  }
+
+  const results = [...first.valid];
+  let invalid = first.invalid;
+  const byId = new Map(chunk.map((item) => [item.paragraphId, item]));
+
+  for (let round = 1; invalid.length && round <= MAX_REPAIR_ROUNDS; round++) {
+    logger.log(
+      `Lot ${label}: ${invalid.length} réponse(s) invalide(s) — nouvelle demande ciblée (${round}/${MAX_REPAIR_ROUNDS}).`,
+      "warn"
+    );
+    const fallback = invalid.filter((f) => f.markup).length;
+    if (fallback) logger.log(`Lot ${label}: ${fallback} balisage(s) inline invalide(s) — repli sur les runs indexés.`, "dim");
+    const retryItems = invalid.map((f) => {
+      const item = byId.get(f.paragraphId)!;
+      if (!f.markup) return { ...item, issue: f.reason };
+      const runs = markupRuns(item.runs[0].text, item.runs[0].index) ?? item.runs;
+      const plain: TranslateBatchItem = { ...item, runs, markup: undefined };
+      byId.set(plain.paragraphId, plain);
+      return plain;
+    });
+    try {
+      const next = validateResults(retryItems, await call(retryItems));
+      results.push(...next.valid);
+      invalid = next.invalid;
+    } catch (e) {
+      if (classifyError(e) === "fatal") throw e;
+      invalid = invalid.map((f) => ({ paragraphId: f.paragraphId, reason: `${f.reason} (${errorMessage(e)})` }));
+      break;
+    }
+  }
+
+  return { results, failures: invalid };
+}
+
+async function translateWithRecovery(
+  chunk: TranslateBatchItem[],
+  settings: Settings,
+  logger: Logger,
+  label: string,
+  retry: RetryOptions,
+  abortSignal?: AbortSignal
+): Promise<ChunkOutcome> {
+  try {
+    return await translateValidated(chunk, settings, logger, label, retry, abortSignal);
+  } catch (e) {
+    if (classifyError(e) === "fatal") throw e;
+    if (chunk.length <= 1) {
+      return { results: [], failures: chunk.map((item) => ({ paragraphId: item.paragraphId, reason: errorMessage(e) })) };
+    }
+
+    // Size limits, truncated or unparsable output: a smaller batch often goes through.
+    logger.log(`Lot ${label} en échec (${errorMessage(e)}) — découpage en 2.`, "warn");
+    const mid = Math.ceil(chunk.length / 2);
+    const splitRetry = { ...retry, retries: Math.min(retry.retries, 1) };
+    const left = await translateWithRecovery(chunk.slice(0, mid), settings, logger, `${label}a`, splitRetry, abortSignal);
+    const right = await translateWithRecovery(chunk.slice(mid), settings, logger, `${label}b`, splitRetry, abortSignal);
+    return {
+      results: [...left.results, ...right.results],
+      failures: [...left.failures, ...right.failures]
+    };
+  }
 }
 
 async function translateChunks(
@@ -491,48 +1172,101 @@ async function translateChunks(
   logger: Logger,
   abortSignal?: AbortSignal,
   concurrency = 3
-): Promise<TranslationResult[]> {
-  if (!chunks.length) return [];
+): Promise<ChunkOutcome> {
+  if (!chunks.length) return { results: [], failures: [] };
 
+  const provider = getProvider(settings);
   const results: TranslationResult[] = [];
+  const failures: ParagraphFailure[] = [];
   let cursor = 0;
   const workers = Array.from({ length: Math.min(concurrency, chunks.length) }, async () => {
     while (true) {
       if (abortSignal?.aborted) break;
       const i = cursor++;
       if (i >= chunks.length) break;
-      logger.log(`OpenAI: lot ${i + 1}/${chunks.length}…`, "dim");
-      const res = await translateBatch(chunks[i], settings);
-      results.push(...res);
+      logger.log(`${provider.label}: lot ${i + 1}/${chunks.length}…`, "dim");
+      const res = await translateWithRecovery(chunks[i], settings, logger, `${i + 1}`, DEFAULT_RETRY, abortSignal);
+      results.push(...res.results);
+      failures.push(...res.failures);
     }
   });
 
   await Promise.all(workers);
-  return results;
+  return { results, failures };
 }
 
-export async function translateAndMaybeApplySlide(
-  targets: SlideTargets,
-  settings: Settings,
-  logger: Logger,
-  abortSignal?: AbortSignal,
-  translationCache?: Map<string, { translatedRuns: { index: number; text: string }[] }>
-): Promise<{ translated: number; preview: string }>
-{
-  const items = buildTranslateItems(targets);
-  if (!items.length) return { translated: 0, preview: "" };
+function describeParagraph(targets: SlideTargets, paragraphId: string): string {
+  for (const st of targets.shapeTextTargets) {
+    const idx = st.paragraphs.findIndex((p) => p.id === paragraphId);
+    if (idx >= 0) return `${st.shapePath || st.shapeName || st.shapeId} §${idx + 1}`;
+  }
+  for (const nt of targets.notesTextTargets) {
+    const idx = nt.paragraphs.findIndex((p) => p.id === paragraphId);
+    if (idx >= 0) return `Notes §${idx + 1}`;
+  }
+  const alt = targets.altTextTargets.find((t) => t.paragraphId === paragraphId);
+  if (alt) return `${alt.shapePath || alt.shapeName || alt.shapeId} (texte alternatif)`;
+  const cell = targets.tableCellTargets.find((t) => t.paragraphId === paragraphId);
+  if (cell) return `${cell.shapePath || cell.shapeName || cell.shapeId} [${cell.row + 1},${cell.col + 1}]`;
+  return paragraphId;
+}
 
-  const cache = translationCache ?? new Map<string, { translatedRuns: { index: number; text: string }[] }>();
+export type SlideResult = {
+  translated: number;
+  failed: number;
+  preview: string;
+  overflows: ShapeOverflow[];
+  overBudget: LengthOverrun[];
+};
+
+interface PreparedSlide {
+  targets: SlideTargets;
+  items: TranslateBatchItem[];
+  tokens: Map<string, string[]>;
+}
+
+interface TranslatedItems {
+  results: TranslationResult[];
+  failures: ParagraphFailure[];
+  requests: number;
+}
+
+function prepareSlide(targets: SlideTargets, settings: Settings, patterns: RegExp[]): PreparedSlide {
+  const { items, tokens } = buildTranslateItems(targets, patterns, settings.sendContext, settings.inlineMarkup);
+  if (settings.fitToLength) {
+    for (const item of items) item.maxChars = lengthBudget(item.originalChars, settings.fitStrength);
+  }
+  return { targets, items, tokens };
+}
+
+function compileSlidePatterns(settings: Settings, logger?: Logger): RegExp[] {
+  const protectedPatterns = compileProtectedPatterns(settings.protectedPatterns);
+  for (const p of protectedPatterns.invalid) logger?.log(`Regex de jeton protégé invalide ignorée : ${p}`, "warn");
+  return protectedPatterns.patterns;
+}
+
+/**
+ * Translates items once per distinct text (and context), reusing `cache` across
+ * calls. Results and failures are reported for every paragraph id, duplicates included.
+ */
+async function translateItems(
+  items: TranslateBatchItem[],
+  tokens: Map<string, string[]>,
+  settings: Settings,
+  logger: Logger,
+  abortSignal: AbortSignal | undefined,
+  cache: Map<string, CachedTranslation>
+): Promise<TranslatedItems> {
   const pending: TranslateBatchItem[] = [];
   const keyToIds = new Map<string, string[]>();
   const idToKey = new Map<string, string>();
-  const allResults: TranslationResult[] = [];
+  const results: TranslationResult[] = [];
 
   for (const item of items) {
     const key = translateKey(item);
     const cached = cache.get(key);
     if (cached) {
-      allResults.push({ paragraphId: item.paragraphId, translatedRuns: cached.translatedRuns });
+      results.push({ ...cached, paragraphId: item.paragraphId });
       continue;
     }
     const ids = keyToIds.get(key);
@@ -546,19 +1280,63 @@ export async function translateAndMaybeApplySlide(
   }
 
   const chunks = chunkByChars(pending);
-  const translated = await translateChunks(chunks, settings, logger, abortSignal);
+  const { results: firstPass, failures } = await translateChunks(chunks, settings, logger, abortSignal);
+  // Workers stop between chunks on abort: never apply a partial slide.
+  abortSignal?.throwIfAborted();
+  const translated = await enforceLengthBudget(pending, firstPass, tokens, settings, logger, abortSignal);
   for (const r of translated) {
     const key = idToKey.get(r.paragraphId);
     if (!key) continue;
-    cache.set(key, { translatedRuns: r.translatedRuns });
-    const ids = keyToIds.get(key) ?? [];
-    for (const id of ids) {
-      allResults.push({ paragraphId: id, translatedRuns: r.translatedRuns });
+    cache.set(key, { translatedRuns: r.translatedRuns, reordered: r.reordered });
+    for (const id of keyToIds.get(key) ?? []) {
+      results.push({ ...r, paragraphId: id });
     }
   }
 
+  const expanded: ParagraphFailure[] = [];
+  for (const f of failures) {
+    const key = idToKey.get(f.paragraphId);
+    const ids = (key && keyToIds.get(key)) || [f.paragraphId];
+    for (const id of ids) expanded.push({ paragraphId: id, reason: f.reason });
+  }
+
+  return { results, failures: expanded, requests: chunks.length };
+}
+
+/** Puts protected tokens back, then previews or applies one slide's translations. */
+async function finishSlide(
+  prepared: PreparedSlide,
+  translated: TranslatedItems,
+  settings: Settings,
+  logger: Logger,
+  abortSignal?: AbortSignal
+): Promise<SlideResult> {
+  const { targets, items, tokens } = prepared;
   const map = new Map<string, TranslationResult>();
-  for (const r of allResults) map.set(r.paragraphId, r);
+  for (const r of translated.results) map.set(r.paragraphId, r);
+
+  // Failed paragraphs keep their original text.
+  let failed = 0;
+  for (const f of translated.failures) {
+    failed++;
+    logger.log(`Non traduit: ${describeParagraph(targets, f.paragraphId)} — ${f.reason}`, "warn");
+  }
+
+  // Put protected tokens back; a paragraph that lost one never reaches the slide.
+  for (const [id, r] of map) {
+    const paragraphTokens = tokens.get(id);
+    if (!paragraphTokens) continue;
+    const restored = unmaskRuns(r.translatedRuns, paragraphTokens);
+    if ("error" in restored) {
+      map.delete(id);
+      failed++;
+      logger.log(`Non traduit: ${describeParagraph(targets, id)} — ${restored.error}`, "error");
+      continue;
+    }
+    map.set(id, { ...r, translatedRuns: restored.runs });
+  }
+
+  const overBudget = settings.fitToLength ? reportLengths(targets, items, map, logger) : [];
 
   if (settings.mode === "preview") {
     // Build a small preview (first 3 paragraphs)
@@ -568,7 +1346,7 @@ export async function translateAndMaybeApplySlide(
       for (const p of st.paragraphs) {
         const tr = map.get(p.id);
         if (!tr) continue;
-        const applied = applyRunTranslations(p, tr.translatedRuns);
+        const applied = applyRunTranslations(p, tr.translatedRuns, tr.reordered);
         const text = applied.runs.map((r) => r.text).join("");
         if (text.trim()) {
           previewParts.push(text);
@@ -579,13 +1357,275 @@ export async function translateAndMaybeApplySlide(
       if (previewCount >= 3) break;
     }
 
-    return { translated: map.size, preview: previewParts.join("\n\n") };
+    return { translated: map.size, failed, preview: previewParts.join("\n\n"), overflows: [], overBudget };
   }
 
   // Apply
-  await applySlideTranslations(targets.slideIndex, targets, map, settings, logger);
+  let overflows = await applySlideTranslations(targets.slideIndex, targets, map, settings, logger);
+  if (settings.overflowStrategy === "shorten" && overflows.length) {
+    try {
+      overflows = await shortenOverflowingShapes(targets, overflows, items, tokens, map, settings, logger, abortSignal);
+    } catch (e) {
+      // The slide is already written: a cancel during this round must still record it
+      // as modified (the caller stops right after).
+      if (!isAbortError(e)) throw e;
+    }
+  }
+  for (const o of overflows) {
+    logger.log(`Débordement probable: slide ${o.slideIndex + 1} › ${o.label} (+${Math.round((o.ratio - 1) * 100)} %)`, "warn");
+  }
+
+  return { translated: map.size, failed, preview: "", overflows, overBudget };
+}
+
+export async function translateAndMaybeApplySlide(
+  targets: SlideTargets,
+  settings: Settings,
+  logger: Logger,
+  abortSignal?: AbortSignal,
+  translationCache?: Map<string, CachedTranslation>
+): Promise<SlideResult>
+{
+  const prepared = prepareSlide(targets, settings, compileSlidePatterns(settings, logger));
+  if (!prepared.items.length) return { translated: 0, failed: 0, preview: "", overflows: [], overBudget: [] };
+  const cache = translationCache ?? new Map<string, CachedTranslation>();
+  const translated = await translateItems(prepared.items, prepared.tokens, settings, logger, abortSignal, cache);
+  return finishSlide(prepared, translated, settings, logger, abortSignal);
+}
+
+export interface LengthOverrun {
+  slideIndex: number;
+  label: string;
+  ratio: number; // translated / original characters
+  budgetRatio: number;
+}
+
+const MAX_BUDGET_ROUNDS = 2;
+
+function maskedLength(runs: { text: string }[], paragraphTokens?: string[]): number {
+  const text = runs.map((r) => stripPlaceholders(r.text)).join("");
+  return text.length + (paragraphTokens ?? []).reduce((a, t) => a + t.length, 0);
+}
+
+/**
+ * Re-requests translations longer than their `maxChars` with the strongest length
+ * constraint, keeping the shortest answer seen for each paragraph whose protected
+ * tokens survived.
+ */
+async function enforceLengthBudget(
+  items: TranslateBatchItem[],
+  results: TranslationResult[],
+  tokens: Map<string, string[]>,
+  settings: Settings,
+  logger: Logger,
+  abortSignal?: AbortSignal
+): Promise<TranslationResult[]> {
+  // DeepL has no way to honour a length constraint: only report.
+  if (!settings.fitToLength || getProvider(settings).id === "deepl") return results;
+
+  const byId = new Map(items.map((item) => [item.paragraphId, item]));
+  const best = new Map(results.map((r) => [r.paragraphId, r]));
+  const length = (r: TranslationResult) => maskedLength(r.translatedRuns, tokens.get(r.paragraphId));
+  const tighter: Settings = { ...settings, fitStrength: 100 };
+
+  for (let round = 1; round <= MAX_BUDGET_ROUNDS; round++) {
+    const over = [...best.values()].filter((r) => {
+      const max = byId.get(r.paragraphId)?.maxChars;
+      return max !== undefined && length(r) > max;
+    });
+    if (!over.length) break;
+
+    logger.log(`${over.length} paragraphe(s) au-delà du budget de longueur — nouvelle demande (${round}/${MAX_BUDGET_ROUNDS}).`, "dim");
+    const retryItems = over.map((r) => {
+      const item = byId.get(r.paragraphId)!;
+      return { ...item, issue: `${length(r)} caractères pour un maximum de ${item.maxChars} : raccourcis la traduction` };
+    });
+    const res = await translateChunks(chunkByChars(retryItems), tighter, logger, abortSignal);
+    abortSignal?.throwIfAborted();
+    for (const r of res.results) {
+      // A shorter answer that lost or repeated a protected token would be rejected later:
+      // the longer valid one stays.
+      const paragraphTokens = tokens.get(r.paragraphId);
+      if (paragraphTokens && "error" in unmaskRuns(r.translatedRuns, paragraphTokens)) continue;
+      const prev = best.get(r.paragraphId);
+      if (!prev || length(r) < length(prev)) best.set(r.paragraphId, r);
+    }
+  }
+
+  return [...best.values()];
+}
+
+function reportLengths(
+  targets: SlideTargets,
+  items: TranslateBatchItem[],
+  map: Map<string, TranslationResult>,
+  logger: Logger
+): LengthOverrun[] {
+  const overruns: LengthOverrun[] = [];
+  let sum = 0;
+  let count = 0;
+  let max: { ratio: number; id: string } | null = null;
+
+  for (const item of items) {
+    const r = map.get(item.paragraphId);
+    if (!r || !item.originalChars) continue;
+    const ratio = r.translatedRuns.map((run) => run.text).join("").length / item.originalChars;
+    sum += ratio;
+    count++;
+    if (!max || ratio > max.ratio) max = { ratio, id: item.paragraphId };
+    if (item.maxChars !== undefined && ratio * item.originalChars > item.maxChars) {
+      overruns.push({
+        slideIndex: targets.slideIndex,
+        label: describeParagraph(targets, item.paragraphId),
+        ratio,
+        budgetRatio: item.maxChars / item.originalChars
+      });
+    }
+  }
+
+  if (!count || !max) return overruns;
+  const pct = (x: number) => `${Math.round(x * 100)} %`;
+  logger.log(
+    `Slide ${targets.slideIndex + 1} — longueur traduite / originale : moyenne ${pct(sum / count)}, max ${pct(max.ratio)} (${describeParagraph(targets, max.id)}).`,
+    "dim"
+  );
+  for (const o of overruns) {
+    logger.log(`Au-delà du budget: ${o.label} — ${pct(o.ratio)} (budget ${pct(o.budgetRatio)})`, "warn");
+  }
+  return overruns;
+}
+
+/**
+ * Asks again, with a tighter length constraint, for the paragraphs of shapes that
+ * overflow, then re-applies those shapes. Returns the overflows that remain.
+ */
+async function shortenOverflowingShapes(
+  targets: SlideTargets,
+  overflows: ShapeOverflow[],
+  items: TranslateBatchItem[],
+  tokens: Map<string, string[]>,
+  map: Map<string, TranslationResult>,
+  settings: Settings,
+  logger: Logger,
+  abortSignal?: AbortSignal
+): Promise<ShapeOverflow[]> {
+  const ratios = new Map(overflows.map((o) => [o.ref, o.ratio]));
+  const shapeTargets = targets.shapeTextTargets.filter((st) => ratios.has(shapeKey(st.shapeId, st.groupPath)));
+  const byId = new Map(items.map((item) => [item.paragraphId, item]));
+  const retryItems: TranslateBatchItem[] = [];
+  for (const st of shapeTargets) {
+    const ratio = ratios.get(shapeKey(st.shapeId, st.groupPath))!;
+    const cut = Math.min(60, Math.round((1 - 1 / ratio) * 100) + 10);
+    for (const p of st.paragraphs) {
+      const item = byId.get(p.id);
+      if (!item || !map.has(p.id)) continue;
+      retryItems.push({ ...item, issue: `trop long pour sa zone de texte : donne une version environ ${cut} % plus courte, même sens` });
+    }
+  }
+  if (!retryItems.length) return overflows;
+
+  logger.log(`Slide ${targets.slideIndex + 1} — ${shapeTargets.length} forme(s) en débordement, demande d'une version plus courte…`, "dim");
+  const shorter: Settings = { ...settings, fitToLength: true, fitStrength: 100 };
+  const { results, failures } = await translateChunks(chunkByChars(retryItems), shorter, logger, abortSignal);
+  abortSignal?.throwIfAborted();
+  for (const f of failures) {
+    logger.log(`Version courte indisponible: ${describeParagraph(targets, f.paragraphId)} — ${f.reason}`, "dim");
+  }
+
+  // A shorter answer that lost a protected token is dropped: the first translation stays.
+  const merged = new Map(map);
+  for (const r of results) {
+    const paragraphTokens = tokens.get(r.paragraphId);
+    const restored = paragraphTokens ? unmaskRuns(r.translatedRuns, paragraphTokens) : { runs: r.translatedRuns };
+    if ("error" in restored) continue;
+    merged.set(r.paragraphId, { ...r, translatedRuns: restored.runs });
+  }
+
+  const retargeted: SlideTargets = {
+    ...targets,
+    shapeTextTargets: shapeTargets,
+    tableCellTargets: [],
+    notesTextTargets: [],
+    altTextTargets: []
+  };
+  return applySlideTranslations(targets.slideIndex, retargeted, merged, { ...settings, overflowStrategy: "flag" }, logger);
+}
+
+export interface ShapeOverflow {
+  slideIndex: number;
+  label: string;
+  ref: string; // shapeKey
+  ratio: number; // estimated text height / height available before translation
+}
 
-  return { translated: map.size, preview: "" };
+// The estimate is rough: only flag clear overflows.
+const OVERFLOW_TOLERANCE = 1.05;
+
+function frameGeometry(shape: PowerPoint.Shape, tf: PowerPoint.TextFrame): FrameGeometry {
+  return {
+    width: shape.width,
+    height: shape.height,
+    leftMargin: tf.leftMargin ?? 0,
+    rightMargin: tf.rightMargin ?? 0,
+    topMargin: tf.topMargin ?? 0,
+    bottomMargin: tf.bottomMargin ?? 0,
+    wordWrap: tf.wordWrap !== false
+  };
+}
+
+function sizedSpans(composed: ReturnType<typeof composeText>): SizedSpan[] {
+  return composed.runSpans.map((r) => ({ start: r.start, length: r.length, size: Number(r.font?.size) || 0 }));
+}
+
+/**
+ * Compares the estimated height of the new text with the frame, and with the source
+ * text (whose layout is taken as acceptable). In bilingual mode the source stays, so
+ * each translation line may also take as much room as the paragraph it translates.
+ * With the "shrink" strategy the font sizes are reduced in steps, never below
+ * `settings.minFontSize`.
+ */
+function fitComposedText(
+  range: PowerPoint.TextRange,
+  shape: PowerPoint.Shape,
+  tf: PowerPoint.TextFrame,
+  source: Paragraph[],
+  translated: Paragraph[],
+  composed: ReturnType<typeof composeText>,
+  settings: Settings
+): { ratio: number; resolved: boolean; shrunkTo?: number } | null {
+  // PowerPoint already scales the text down to the shape.
+  if (tf.autoSizeSetting === "AutoSizeTextToFitShape") return null;
+
+  const geometry = frameGeometry(shape, tf);
+  const monolingual = { ...settings, bilingual: false };
+  const original = composeText(source, monolingual);
+  let budget = estimateTextHeight(original.fullText, sizedSpans(original), geometry);
+  if (settings.bilingual) {
+    const echoed = source
+      .filter((p, i) => translated[i] && runsText(translated[i].runs) !== runsText(p.runs))
+      .map((p) => ({ ...p, runs: p.runs.map((r) => ({ ...r, font: styleTranslatedFont(r.font, settings.bilingualStyle) })) }));
+    if (echoed.length) {
+      const echo = composeText(echoed, { ...monolingual, keepLineBreaks: true });
+      budget += estimateTextHeight(echo.fullText, sizedSpans(echo), geometry);
+    }
+  }
+  const limit = Math.max(availableHeight(geometry), budget);
+  const spans = sizedSpans(composed);
+  const ratio = estimateTextHeight(composed.fullText, spans, geometry) / limit;
+  if (ratio <= OVERFLOW_TOLERANCE) return null;
+  if (settings.overflowStrategy !== "shrink") return { ratio, resolved: false };
+
+  const minSize = Math.max(1, Number(settings.minFontSize) || 1);
+  const { scale, fits } = shrinkToFit(composed.fullText, spans, geometry, limit, minSize);
+  let smallest = Infinity;
+  for (const s of spans) {
+    if (s.length <= 0 || !s.size) continue;
+    const size = shrinkSize(s.size, scale, minSize);
+    smallest = Math.min(smallest, size);
+    if (size !== s.size) range.getSubstring(s.start, s.length).font.size = size;
+  }
+  const after = estimateTextHeight(composed.fullText, spans, geometry, scale, minSize) / limit;
+  return { ratio: after, resolved: fits, shrunkTo: Number.isFinite(smallest) ? smallest : undefined };
 }
 
 export async function applySlideTranslations(
@@ -594,15 +1634,50 @@ export async function applySlideTranslations(
   translationMap: Map<string, TranslationResult>,
   settings: Settings,
   logger?: Logger
-): Promise<void> {
-  await PowerPoint.run(async (context) => {
+): Promise<ShapeOverflow[]> {
+  const checkOverflow = settings.overflowStrategy !== "off";
+  const scriptFont = resolveScriptFont(settings);
+  const substitute = <T extends { text: string; font?: any }>(runs: T[], replaced: Set<string>) =>
+    scriptFont ? substituteRunFonts(runs, scriptFont.name, scriptFont.pattern, (from) => replaced.add(from)) : runs;
+  const logSubstitutions = (label: string, replaced: Set<string>) => {
+    if (scriptFont && replaced.size) {
+      logger?.log(`Police remplacée: ${label} — ${[...replaced].join(", ")} → ${scriptFont.name}`, "dim");
+    }
+  };
+
+  return PowerPoint.run(async (context) => {
     const slide = context.presentation.slides.getItemAt(slideIndex);
+    slide.load("id");
+    const hashTag = slide.tags.getItemOrNullObject(HASH_TAG);
+    hashTag.load("isNullObject,value");
     const shapeIndex = await buildShapeIndex(context, slide, logger);
-    const textFrames: Array<{ target: ShapeTextTarget; textFrame: PowerPoint.TextFrame }> = [];
+    // Source and written text of every translated paragraph, for later "update" runs.
+    const written: string[] = [];
+
+    // Keep the source text + formatting before anything is overwritten.
+    try {
+      await saveSlideSnapshot(slide.id, snapshotFromTargets(targets));
+    } catch (e) {
+      logger?.log(`Slide ${slideIndex + 1}: original non enregistré, « Restaurer l'original » ne pourra pas la rétablir — ${errorMessage(e)}`, "error");
+    }
+
+    const textFrames: Array<{
+      label: string;
+      paragraphs: Paragraph[];
+      textFrame: PowerPoint.TextFrame;
+      shape?: PowerPoint.Shape; // set when the frame is checked for overflow
+      ref?: string;
+    }> = [];
     const tableCells: Array<{ target: TableCellTarget; cell: PowerPoint.TableCell }> = [];
+    const overflows: ShapeOverflow[] = [];
+
+    // Frames with nothing to write (all approved in update mode) are left untouched:
+    // rewriting them would drop what the extraction does not capture (links, highlight…).
+    const hasTranslation = (paragraphs: Paragraph[]) => paragraphs.some((p) => translationMap.has(p.id));
 
     // Shapes (text frames)
     for (const st of targets.shapeTextTargets) {
+      if (!hasTranslation(st.paragraphs)) continue;
       const key = shapeKey(st.shapeId, st.groupPath);
       const shape = shapeIndex.get(key) ?? slide.shapes.getItem(st.shapeId);
       if (!shape) {
@@ -610,12 +1685,36 @@ export async function applySlideTranslations(
         continue;
       }
       const tf = shape.getTextFrameOrNullObject();
-      tf.load("isNullObject,hasText");
-      textFrames.push({ target: st, textFrame: tf });
+      const label = st.shapePath || st.shapeName || st.shapeId;
+      if (checkOverflow) {
+        shape.load("height,width");
+        tf.load("isNullObject,hasText,autoSizeSetting,wordWrap,leftMargin,rightMargin,topMargin,bottomMargin");
+        textFrames.push({ label, paragraphs: st.paragraphs, textFrame: tf, shape, ref: key });
+      } else {
+        tf.load("isNullObject,hasText");
+        textFrames.push({ label, paragraphs: st.paragraphs, textFrame: tf });
+      }
+    }
+
+    // Speaker notes: same run/paragraph handling as text boxes.
+    if (targets.notesTextTargets.length) {
+      const notesShapes = await getNotesShapes(context, slide, slideIndex, logger);
+      for (const nt of targets.notesTextTargets) {
+        if (!hasTranslation(nt.paragraphs)) continue;
+        const shape = notesShapes.find((s) => s.id === nt.shapeId);
+        if (!shape) {
+          logger?.log(`Notes introuvables: slide ${slideIndex + 1}`, "dim");
+          continue;
+        }
+        const tf = shape.getTextFrameOrNullObject();
+        tf.load("isNullObject,hasText");
+        textFrames.push({ label: `Notes (slide ${slideIndex + 1})`, paragraphs: nt.paragraphs, textFrame: tf });
+      }
     }
 
     // Tables
     for (const tc of targets.tableCellTargets) {
+      if (!translationMap.has(tc.paragraphId)) continue;
       const key = shapeKey(tc.shapeId, tc.groupPath);
       const shape = shapeIndex.get(key) ?? slide.shapes.getItem(tc.shapeId);
       if (!shape) {
@@ -632,24 +1731,56 @@ export async function applySlideTranslations(
       await context.sync();
     }
 
+    // Alt text: plain properties, no formatting to rebuild.
+    for (const at of targets.altTextTargets) {
+      const tr = translationMap.get(at.paragraphId);
+      const text = tr?.translatedRuns.find((r) => r.index === 0)?.text;
+      if (typeof text !== "string") continue;
+      const shape = shapeIndex.get(shapeKey(at.shapeId, at.groupPath));
+      if (!shape) {
+        logger?.log(`Forme introuvable: ${at.shapePath || at.shapeName || at.shapeId}`, "dim");
+        continue;
+      }
+      try {
+        shape[at.field] = preserveWhitespace(at.text, text);
+        written.push(at.text, text);
+      } catch {
+        logger?.log(`Texte alternatif non modifiable: ${at.shapePath || at.shapeName || at.shapeId}`, "dim");
+      }
+    }
+
     for (const entry of textFrames) {
-      const st = entry.target;
       const tf = entry.textFrame;
       if (tf.isNullObject || !tf.hasText) continue;
 
-      const updatedParagraphs: Paragraph[] = st.paragraphs.map((p) => {
+      const replaced = new Set<string>();
+      const updatedParagraphs: Paragraph[] = entry.paragraphs.map((p) => {
         const r = translationMap.get(p.id);
-        return r ? applyRunTranslations(p, r.translatedRuns) : p;
+        if (!r) return p;
+        const applied = applyRunTranslations(p, r.translatedRuns, r.reordered);
+        const dir = textDirections(settings, runsText(p.runs));
+        written.push(runsText(p.runs), runsText(applied.runs));
+        return {
+          ...applied,
+          runs: substitute(applied.runs, replaced),
+          paragraphFormat: directedParagraphFormat(p.paragraphFormat, dir.sourceRtl, dir.targetRtl)
+        };
       });
 
-      const composed = composeText(updatedParagraphs, settings);
+      const composed = queueParagraphsText(tf.textRange, updatedParagraphs, settings, entry.paragraphs);
 
-      tf.textRange.text = composed.fullText;
-      // Queue formats on the new text.
-      queueParagraphFormats(tf.textRange, composed.paragraphSpans);
-      queueFontRuns(tf.textRange, composed.runSpans, settings);
+      logger?.log(`Appliqué: ${entry.label}`, "dim");
+      logSubstitutions(entry.label, replaced);
 
-      logger?.log(`Appliqué: ${st.shapePath || st.shapeName || st.shapeId}`, "dim");
+      if (entry.shape && entry.ref) {
+        const fit = fitComposedText(tf.textRange, entry.shape, tf, entry.paragraphs, updatedParagraphs, composed, settings);
+        if (fit?.shrunkTo !== undefined) {
+          logger?.log(`Police réduite: ${entry.label} (${fit.shrunkTo} pt min.)`, "dim");
+        }
+        if (fit && !fit.resolved) {
+          overflows.push({ slideIndex, label: entry.label, ref: entry.ref, ratio: fit.ratio });
+        }
+      }
     }
 
     for (const entry of tableCells) {
@@ -661,29 +1792,267 @@ export async function applySlideTranslations(
       if (!tr) continue;
 
       const runMap = new Map<number, string>(tr.translatedRuns.map((r) => [r.index, r.text]));
-      const newTextRuns = tc.runs.map((r, idx) => ({
-        text: runMap.get(idx) ?? r.text,
-        font: r.font
-      }));
-
-      const fullText = newTextRuns.map((r) => r.text).join("");
-      const range = cell.textRange;
-      range.text = fullText;
-      let offset = 0;
-      const spans = newTextRuns.map((r) => {
-        const length = r.text.length;
-        const span = { start: offset, length, font: coerceFontSnapshot(r.font) };
-        offset += length;
-        return span;
-      });
-      queueFontRuns(range, spans, settings);
+      const replaced = new Set<string>();
+      let newTextRuns: TableRunSnapshot[] = substitute(
+        tr.reordered
+          ? reorderRuns(tc.runs, tr.translatedRuns)
+          : tc.runs.map((r, idx) => ({
+              text: runMap.get(idx) ?? r.text,
+              font: r.font
+            })),
+        replaced
+      );
+      logSubstitutions(`${tc.shapePath || tc.shapeName || tc.shapeId} [${tc.row + 1},${tc.col + 1}]`, replaced);
+      const dir = textDirections(settings, runsText(tc.runs));
+      const mirrored = dir.sourceRtl !== dir.targetRtl ? mirrorAlignment(tc.horizontalAlignment, dir.sourceRtl) : undefined;
+      let paragraphSpans: { start: number; length: number; format?: ParagraphFormatSnapshot }[] | undefined;
+
+      if (settings.bilingual && runsText(newTextRuns) !== runsText(tc.runs)) {
+        const lastFont = tc.runs[tc.runs.length - 1]?.font;
+        const translatedText = runsText(newTextRuns);
+        newTextRuns = [
+          ...tc.runs,
+          { text: "\n", font: lastFont },
+          ...newTextRuns.map((r) => ({
+            text: r.text,
+            font: styleTranslatedFont(coerceFontSnapshot(r.font), settings.bilingualStyle)
+          }))
+        ];
+        // The original stays as it is: only the translation paragraph changes direction.
+        if (mirrored) {
+          const start = runsText(tc.runs).length + 1;
+          paragraphSpans = [
+            { start, length: translatedText.length, format: { horizontalAlignment: mirrored, rightToLeft: dir.targetRtl } }
+          ];
+        }
+      } else if (mirrored) {
+        cell.horizontalAlignment = mirrored as PowerPoint.ParagraphHorizontalAlignment;
+      }
+
+      queueCellRuns(cell, newTextRuns, settings, paragraphSpans);
+      written.push(runsText(tc.runs), runsText(newTextRuns));
+    }
+
+    if (written.length) {
+      const value = parseHashTag(hashTag);
+      const merged = new Set([...(value[settings.toLang] ?? []), ...written.map(paragraphHash)]);
+      value[settings.toLang] = [...merged].slice(-MAX_HASHES_PER_LANG);
+      slide.tags.add(HASH_TAG, JSON.stringify(value));
     }
 
     await context.sync();
+    return overflows;
+  });
+}
+
+function queueParagraphsText(
+  range: PowerPoint.TextRange,
+  paragraphs: Paragraph[],
+  settings: Settings,
+  originals?: Paragraph[]
+) {
+  const composed = composeText(paragraphs, settings, originals);
+
+  range.text = composed.fullText;
+  // Queue formats on the new text.
+  queueParagraphFormats(range, composed.paragraphSpans);
+  queueFontRuns(range, composed.runSpans, settings);
+  return composed;
+}
+
+function queueCellRuns(
+  cell: PowerPoint.TableCell,
+  runs: TableRunSnapshot[],
+  settings: Settings,
+  paragraphSpans?: { start: number; length: number; format?: ParagraphFormatSnapshot }[]
+) {
+  const fullText = runs.map((r) => r.text).join("");
+  const range = cell.textRange;
+  range.text = fullText;
+  let offset = 0;
+  const spans = runs.map((r) => {
+    const length = r.text.length;
+    const span = { start: offset, length, font: coerceFontSnapshot(r.font) };
+    offset += length;
+    return span;
   });
+  queueFontRuns(range, spans, settings);
+  if (paragraphSpans) queueParagraphFormats(range, paragraphSpans);
+}
+
+function resolveScriptFont(settings: Settings): { name: string; pattern: RegExp } | null {
+  const target = scriptForLanguage(settings.toLang);
+  const name = target ? settings.scriptFonts?.[target.script]?.trim() : "";
+  return target && name ? { name, pattern: target.pattern } : null;
+}
+
+function textDirections(settings: Settings, sourceText: string): { sourceRtl: boolean; targetRtl: boolean } {
+  return {
+    sourceRtl: settings.fromLang === "auto" ? looksRtl(sourceText) : isRtlLanguage(settings.fromLang),
+    targetRtl: isRtlLanguage(settings.toLang)
+  };
+}
+
+function snapshotFromTargets(targets: SlideTargets): SlideSnapshot {
+  const shapes: Record<string, ShapeSnapshot> = {};
+  const entry = (shapeId: string, groupPath: string[]) => (shapes[shapeKey(shapeId, groupPath)] ??= {});
+
+  for (const st of targets.shapeTextTargets) {
+    entry(st.shapeId, st.groupPath).paragraphs = st.paragraphs;
+  }
+  for (const tc of targets.tableCellTargets) {
+    const e = entry(tc.shapeId, tc.groupPath);
+    (e.cells ??= []).push({ row: tc.row, col: tc.col, runs: tc.runs, horizontalAlignment: tc.horizontalAlignment });
+  }
+  for (const at of targets.altTextTargets) {
+    const e = entry(at.shapeId, at.groupPath);
+    (e.altText ??= {})[at.field] = at.text;
+  }
+
+  const notes: Record<string, Paragraph[]> = {};
+  for (const nt of targets.notesTextTargets) notes[nt.shapeId] = nt.paragraphs;
+
+  return { savedAt: new Date().toISOString(), shapes, notes };
+}
+
+export type RestoreTarget = "current" | "selection" | "all";
+
+/**
+ * Rebuilds the original text and formatting saved by `applySlideTranslations`
+ * for the selected slide(s), the selected shapes, or the whole deck.
+ */
+export async function restoreOriginals(
+  target: RestoreTarget,
+  settings: Settings,
+  logger: Logger
+): Promise<{ slides: number; shapes: number }> {
+  const indices = await getSlideIndices(target === "all" ? "all" : "current");
+  // Originals were captured paragraph by paragraph: always rebuild with real line breaks.
+  const plain: Settings = { ...settings, keepLineBreaks: true, bilingual: false };
+  let slides = 0;
+  let shapes = 0;
+
+  for (const slideIndex of indices) {
+    const restored = await PowerPoint.run(async (context) => {
+      const slide = context.presentation.slides.getItemAt(slideIndex);
+      slide.load("id");
+      const hashTag = slide.tags.getItemOrNullObject(HASH_TAG);
+      hashTag.load("isNullObject,value");
+      let selected: Set<string> | null = null;
+      if (target === "selection") {
+        const selection = context.presentation.getSelectedShapes();
+        selection.load("items/id");
+        await context.sync();
+        selected = new Set(selection.items.map((s) => s.id));
+      } else {
+        await context.sync();
+      }
+
+      const snapshot = loadSlideSnapshot(slide.id);
+      if (!snapshot) return 0;
+
+      // Selecting a group restores everything inside it.
+      const isSelected = (ref: string) => !selected || ref.split("::").some((id) => selected!.has(id));
+      const shapeIndex = await buildShapeIndex(context, slide, logger);
+      const restoredRefs: string[] = [];
+      const restoredNotes: string[] = [];
+      const frames: Array<{ paragraphs: Paragraph[]; textFrame: PowerPoint.TextFrame }> = [];
+      const cells: Array<{ snapshot: CellSnapshot; cell: PowerPoint.TableCell }> = [];
+      // Source text is back on the slide: the next "update" run must translate it again.
+      const restoredTexts: string[] = [];
+
+      for (const [ref, snap] of Object.entries(snapshot.shapes)) {
+        if (!isSelected(ref)) continue;
+        const shape = shapeIndex.get(ref);
+        if (!shape) {
+          logger.log(`Slide ${slideIndex + 1}: forme introuvable (${ref}), original conservé.`, "dim");
+          continue;
+        }
+        if (snap.paragraphs) {
+          const tf = shape.getTextFrameOrNullObject();
+          tf.load("isNullObject");
+          frames.push({ paragraphs: snap.paragraphs, textFrame: tf });
+          restoredTexts.push(...snap.paragraphs.map((p) => runsText(p.runs)));
+        }
+        for (const c of snap.cells ?? []) {
+          const cell = shape.getTable().getCellOrNullObject(c.row, c.col);
+          cell.load("isNullObject");
+          cells.push({ snapshot: c, cell });
+          restoredTexts.push(runsText(c.runs));
+        }
+        for (const [field, text] of Object.entries(snap.altText ?? {}) as [AltTextTarget["field"], string][]) {
+          try {
+            shape[field] = text;
+            restoredTexts.push(text);
+          } catch {
+            // ignore
+          }
+        }
+        restoredRefs.push(ref);
+      }
+
+      if (!selected && Object.keys(snapshot.notes).length) {
+        const notesShapes = await getNotesShapes(context, slide, slideIndex, logger);
+        for (const [id, paragraphs] of Object.entries(snapshot.notes)) {
+          const shape = notesShapes.find((s) => s.id === id);
+          if (!shape) continue;
+          const tf = shape.getTextFrameOrNullObject();
+          tf.load("isNullObject");
+          frames.push({ paragraphs, textFrame: tf });
+          restoredNotes.push(id);
+          restoredTexts.push(...paragraphs.map((p) => runsText(p.runs)));
+        }
+      }
+
+      await context.sync();
+
+      for (const f of frames) {
+        if (f.textFrame.isNullObject) continue;
+        // Undo a direction change made on apply (hosts that expose paragraph direction).
+        const paragraphs = f.paragraphs.map((p) => ({
+          ...p,
+          paragraphFormat: { ...p.paragraphFormat, rightToLeft: looksRtl(runsText(p.runs)) }
+        }));
+        queueParagraphsText(f.textFrame.textRange, paragraphs, plain);
+      }
+      for (const c of cells) {
+        if ((c.cell as any).isNullObject) continue;
+        queueCellRuns(c.cell, c.snapshot.runs, settings);
+        if (c.snapshot.horizontalAlignment) {
+          c.cell.horizontalAlignment = c.snapshot.horizontalAlignment as PowerPoint.ParagraphHorizontalAlignment;
+        }
+      }
+      if (!hashTag.isNullObject && restoredTexts.length) {
+        const value = parseHashTag(hashTag);
+        const stale = new Set(restoredTexts.map(paragraphHash));
+        for (const lang of Object.keys(value)) value[lang] = value[lang].filter((h) => !stale.has(h));
+        slide.tags.add(HASH_TAG, JSON.stringify(value));
+      }
+      await context.sync();
+
+      try {
+        await forgetSnapshotEntries(slide.id, restoredRefs, restoredNotes);
+      } catch (e) {
+        logger?.log(`Slide ${slideIndex + 1}: originaux restaurés mais toujours enregistrés — ${errorMessage(e)}`, "warn");
+      }
+      return restoredRefs.length + restoredNotes.length;
+    });
+
+    if (restored) {
+      slides++;
+      shapes += restored;
+      logger.log(`Slide ${slideIndex + 1} — ${restored} forme(s) restaurée(s).`, "dim");
+    }
+  }
+
+  return { slides, shapes };
 }
 
-function composeText(paragraphs: Paragraph[], settings: Settings): {
+function runsText(runs: { text: string }[]): string {
+  return runs.map((r) => r.text).join("");
+}
+
+function composeText(paragraphs: Paragraph[], settings: Settings, originals?: Paragraph[]): {
   fullText: string;
   paragraphSpans: { start: number; length: number; format?: any }[];
   runSpans: { start: number; length: number; font: any }[];
@@ -692,9 +2061,25 @@ function composeText(paragraphs: Paragraph[], settings: Settings): {
   const paragraphSpans: { start: number; length: number; format?: any }[] = [];
   const runSpans: { start: number; length: number; font: any }[] = [];
 
+  // Bilingual: the original paragraph stays, its translation follows on its own line
+  // with the same paragraph format and a distinct font style.
+  const blocks: { paragraph: Paragraph; pairedWithNext: boolean }[] = [];
+  paragraphs.forEach((p, i) => {
+    const original = settings.bilingual ? originals?.[i] : undefined;
+    if (original && runsText(original.runs) !== runsText(p.runs)) {
+      blocks.push({ paragraph: original, pairedWithNext: true });
+      blocks.push({
+        paragraph: { ...p, runs: p.runs.map((r) => ({ ...r, font: styleTranslatedFont(r.font, settings.bilingualStyle) })) },
+        pairedWithNext: false
+      });
+    } else {
+      blocks.push({ paragraph: p, pairedWithNext: false });
+    }
+  });
+
   let offset = 0;
-  for (let i = 0; i < paragraphs.length; i++) {
-    const p = paragraphs[i];
+  for (let i = 0; i < blocks.length; i++) {
+    const p = blocks[i].paragraph;
     const pStart = offset;
 
     for (const run of p.runs) {
@@ -706,10 +2091,10 @@ function composeText(paragraphs: Paragraph[], settings: Settings): {
     const pLen = offset - pStart;
     paragraphSpans.push({ start: pStart, length: pLen, format: p.paragraphFormat });
 
-    if (settings.keepLineBreaks && i < paragraphs.length - 1) {
+    if ((settings.keepLineBreaks || blocks[i].pairedWithNext) && i < blocks.length - 1) {
       fullText += "\n";
       offset += 1;
-    } else if (!settings.keepLineBreaks && i < paragraphs.length - 1) {
+    } else if (!settings.keepLineBreaks && i < blocks.length - 1) {
       fullText += " ";
       offset += 1;
     }
@@ -718,48 +2103,333 @@ function composeText(paragraphs: Paragraph[], settings: Settings): {
   return { fullText, paragraphSpans, runSpans };
 }
 
-export async function translateScope(
+function countBlocks(targets: SlideTargets): number {
+  return (
+    targets.shapeTextTargets.reduce((a, t) => a + t.paragraphs.length, 0) +
+    targets.tableCellTargets.length +
+    targets.notesTextTargets.reduce((a, t) => a + t.paragraphs.length, 0) +
+    targets.altTextTargets.length -
+    (targets.approvedIds?.size ?? 0)
+  );
+}
+
+/** Batches a slide-by-slide run would send for the same items, sharing one cache. */
+function perSlideChunks(prepared: PreparedSlide[], cache: Map<string, CachedTranslation>): TranslateBatchItem[][] {
+  const seen = new Set(cache.keys());
+  const chunks: TranslateBatchItem[][] = [];
+  for (const p of prepared) {
+    const fresh = new Map<string, TranslateBatchItem>();
+    for (const item of p.items) {
+      const key = translateKey(item);
+      if (!seen.has(key) && !fresh.has(key)) fresh.set(key, item);
+    }
+    chunks.push(...chunkByChars([...fresh.values()]));
+    for (const key of fresh.keys()) seen.add(key);
+  }
+  return chunks;
+}
+
+/**
+ * Deck-wide batching: extracts every slide first, translates all their items in
+ * shared batches, then applies slide by slide. Progress runs over both halves.
+ */
+async function translateDeck(
+  indices: number[],
   settings: Settings,
   logger: Logger,
   onProgress: (done: number, total: number, label: string) => void,
+  cache: Map<string, CachedTranslation>,
+  complete: (slideIndex: number, res?: SlideResult) => Promise<void>,
+  fail: (slideIndex: number, e: unknown) => boolean,
   abortSignal?: AbortSignal
-): Promise<{ translated: number; preview?: string }>
-{
-  const indices = await getSlideIndices(settings.scope);
-  const total = indices.length;
-  let translatedTotal = 0;
-  let preview = "";
-  const translationCache = new Map<string, { translatedRuns: { index: number; text: string }[] }>();
+): Promise<void> {
+  const steps = indices.length * 2;
+  const patterns = compileSlidePatterns(settings, logger);
+  const prepared: PreparedSlide[] = [];
 
   for (let i = 0; i < indices.length; i++) {
-    if (abortSignal?.aborted) break;
+    if (abortSignal?.aborted) return;
     const slideIndex = indices[i];
+    try {
+      onProgress(i, steps, `Extraction slide ${slideIndex + 1}/${indices.length}`);
+      const targets = await extractSlideTargets(slideIndex, settings, logger);
+      const slide = prepareSlide(targets, settings, patterns);
+      if (!slide.items.length) {
+        logger.log(`Slide ${slideIndex + 1} — rien à traduire.`, "dim");
+        await complete(slideIndex);
+        continue;
+      }
+      prepared.push(slide);
+    } catch (e) {
+      if (!fail(slideIndex, e)) return;
+    }
+  }
+  if (!prepared.length) return;
+
+  const items = prepared.flatMap((p) => p.items);
+  const tokens = new Map(prepared.flatMap((p) => [...p.tokens]));
+  const baseline = perSlideChunks(prepared, cache).length;
+  onProgress(indices.length, steps, `Traduction de ${prepared.length} slide(s)`);
+  logger.log(`Deck — traduction de ${items.length} bloc(s) sur ${prepared.length} slide(s)…`);
+
+  let translated: TranslatedItems;
+  try {
+    translated = await translateItems(items, tokens, settings, logger, abortSignal, cache);
+  } catch (e) {
+    for (const p of prepared) {
+      if (!fail(p.targets.slideIndex, e)) return;
+    }
+    return;
+  }
+  const saved = baseline - translated.requests;
+  logger.log(
+    `Deck — ${translated.requests} requête(s) au lieu de ${baseline} slide par slide (${Math.max(0, saved)} économisée(s)).`,
+    "dim"
+  );
+
+  for (let i = 0; i < prepared.length; i++) {
+    if (abortSignal?.aborted) return;
+    const p = prepared[i];
+    const slideIndex = p.targets.slideIndex;
+    const ids = new Set(p.items.map((item) => item.paragraphId));
+    const own: TranslatedItems = {
+      results: translated.results.filter((r) => ids.has(r.paragraphId)),
+      failures: translated.failures.filter((f) => ids.has(f.paragraphId)),
+      requests: 0
+    };
+    try {
+      onProgress(indices.length + i, steps, `Application slide ${slideIndex + 1}`);
+      await complete(slideIndex, await finishSlide(p, own, settings, logger, abortSignal));
+    } catch (e) {
+      if (!fail(slideIndex, e)) return;
+    }
+  }
+}
 
-    onProgress(i, total, `Extraction slide ${slideIndex + 1}/${total}`);
-    logger.log(`Slide ${slideIndex + 1} — extraction…`);
+// Slides extracted and translated ahead of the one being applied.
+const PIPELINE_DEPTH = 2;
 
-    const targets = await extractSlideTargets(slideIndex, settings, logger);
+interface ProducedSlide {
+  slideIndex: number;
+  prepared?: PreparedSlide; // absent: nothing to translate
+  translated?: TranslatedItems;
+  error?: unknown;
+}
 
-    const count =
-      targets.shapeTextTargets.reduce((a, t) => a + t.paragraphs.length, 0) +
-      targets.tableCellTargets.length;
+/**
+ * Slide by slide, as a pipeline: while slide N is applied, the next slides are
+ * extracted and translated one after the other, at most PIPELINE_DEPTH ahead.
+ * Nothing is left running on return, even on abort or on a fatal error.
+ */
+async function translatePipelined(
+  indices: number[],
+  settings: Settings,
+  logger: Logger,
+  onProgress: (done: number, total: number, label: string) => void,
+  cache: Map<string, CachedTranslation>,
+  complete: (slideIndex: number, res?: SlideResult) => Promise<void>,
+  fail: (slideIndex: number, e: unknown) => boolean,
+  selection?: SelectionFilter,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  const total = indices.length;
+  const patterns = compileSlidePatterns(settings, logger);
+  // Stops the producer when the consumer gives up, not only when the user cancels.
+  const stop = new AbortController();
+  const onAbort = () => stop.abort();
+  abortSignal?.addEventListener("abort", onAbort, { once: true });
+  let applied = 0;
+
+  const produce = async (i: number): Promise<ProducedSlide> => {
+    const slideIndex = indices[i];
+    if (stop.signal.aborted) return { slideIndex, error: stop.signal.reason };
+    try {
+      onProgress(applied, total, `Extraction slide ${slideIndex + 1}/${total}`);
+      logger.log(`Slide ${slideIndex + 1} — extraction…`);
+      const targets = await extractSlideTargets(slideIndex, settings, logger, selection);
+      const count = countBlocks(targets);
+      const prepared = prepareSlide(targets, settings, patterns);
+      if (count === 0 || !prepared.items.length) return { slideIndex };
+
+      onProgress(applied, total, `Traduction slide ${slideIndex + 1}/${total}`);
+      logger.log(`Slide ${slideIndex + 1} — traduction (${count} bloc(s))…`);
+      const translated = await translateItems(prepared.items, prepared.tokens, settings, logger, stop.signal, cache);
+      return { slideIndex, prepared, translated };
+    } catch (error) {
+      return { slideIndex, error };
+    }
+  };
 
-    if (count === 0) {
-      logger.log(`Slide ${slideIndex + 1} — rien à traduire.`, "dim");
-      onProgress(i + 1, total, `Slide ${slideIndex + 1} terminé (0)`);
-      continue;
+  const stages: Promise<ProducedSlide>[] = [];
+  let tail: Promise<unknown> = Promise.resolve();
+  const schedule = (i: number) => {
+    if (i >= total) return;
+    stages[i] = tail.then(() => produce(i));
+    tail = stages[i];
+  };
+
+  try {
+    for (let i = 0; i < PIPELINE_DEPTH; i++) schedule(i);
+    for (let i = 0; i < total; i++) {
+      const slide = await stages[i];
+      if (abortSignal?.aborted) break;
+      schedule(i + PIPELINE_DEPTH);
+
+      const { slideIndex } = slide;
+      if (slide.error !== undefined) {
+        if (!fail(slideIndex, slide.error)) break;
+      } else if (!slide.prepared || !slide.translated) {
+        logger.log(`Slide ${slideIndex + 1} — rien à traduire.`, "dim");
+        await complete(slideIndex);
+      } else {
+        try {
+          onProgress(applied, total, `Application slide ${slideIndex + 1}/${total}`);
+          await complete(slideIndex, await finishSlide(slide.prepared, slide.translated, settings, logger, abortSignal));
+        } catch (e) {
+          if (!fail(slideIndex, e)) break;
+        }
+      }
+
+      applied = i + 1;
+      onProgress(applied, total, `Slide ${slideIndex + 1} terminé`);
+    }
+  } finally {
+    stop.abort();
+    await tail;
+    abortSignal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export async function translateScope(
+  settings: Settings,
+  logger: Logger,
+  onProgress: (done: number, total: number, label: string) => void,
+  abortSignal?: AbortSignal,
+  resume?: TranslationJob
+): Promise<{
+  translated: number;
+  failed: number;
+  failedSlides: number[];
+  overflows: ShapeOverflow[];
+  overBudget: LengthOverrun[];
+  preview?: string;
+}>
+{
+  settings = checkNotesSupport(settings, logger);
+  let selection: SelectionFilter | undefined;
+  if (settings.scope === "selection") {
+    // Copies get new shapes: the selection would not match anything there.
+    if (settings.mode === "copy") throw new Error("Le mode copie ne s'applique pas à une sélection.");
+    selection = await getSelectionFilter();
+  }
+  let indices: number[];
+  let job: TranslationJob | undefined;
+  const translationCache = new Map<string, CachedTranslation>(resume?.cache ?? []);
+
+  if (resume) {
+    // Slides are tracked by id: they may have been moved or deleted since.
+    const ids = await getSlideIds();
+    const indexById = new Map(ids.map((id, idx) => [id, idx]));
+    const done = new Set(resume.completed);
+    const missing = resume.slideIds.filter((id) => !indexById.has(id));
+    if (missing.length) logger.log(`Reprise — ${missing.length} slide(s) introuvable(s), ignorée(s).`, "warn");
+    indices = resume.slideIds
+      .filter((id) => !done.has(id) && indexById.has(id))
+      .map((id) => indexById.get(id) as number);
+    logger.log(`Reprise — ${done.size} slide(s) déjà traitée(s), ${indices.length} restante(s).`);
+    job = resume;
+    // Slides left with failed paragraphs were partly written: only retry what is not
+    // recognised as translated yet (slide copies already exist and are updated in place).
+    settings = { ...settings, mode: "update" };
+  } else {
+    indices = selection ? [selection.slideIndex] : await getSlideIndices(settings.scope, settings, logger);
+    if (settings.mode === "copy") {
+      logger.log(`Copie de ${indices.length} slide(s) avant traduction…`);
+      indices = await duplicateSlidesForTranslation(indices, settings, logger);
+      logger.log(`${indices.length} copie(s) créée(s) — seules les copies seront traduites.`, "dim");
+    }
+    // Previews change nothing and a text selection cannot be found again later.
+    if (settings.mode !== "preview" && !selection && indices.length > 1) {
+      const ids = await getSlideIds();
+      const now = new Date().toISOString();
+      job = {
+        startedAt: now,
+        updatedAt: now,
+        settings,
+        slideIds: indices.map((idx) => ids[idx]),
+        completed: [],
+        cache: []
+      };
+      try {
+        await saveJob(job);
+      } catch (e) {
+        logger.log(`Point de reprise non enregistré : ${errorMessage(e)}`, "warn");
+      }
     }
+  }
 
-    onProgress(i, total, `Traduction slide ${slideIndex + 1}/${total}`);
-    logger.log(`Slide ${slideIndex + 1} — traduction (${count} bloc(s))…`);
+  const slideIds = job ? await getSlideIds() : [];
+  const checkpoint = async (slideIndex: number, complete: boolean) => {
+    if (!job || !slideIds[slideIndex]) return;
+    // Slides with failed paragraphs stay pending so that "Reprendre" retries them.
+    if (complete) job.completed.push(slideIds[slideIndex]);
+    try {
+      await saveJob(job, translationCache);
+    } catch (e) {
+      logger.log(`Point de reprise non enregistré : ${errorMessage(e)}`, "warn");
+    }
+  };
+  const total = indices.length;
+  let translatedTotal = 0;
+  let failedTotal = 0;
+  const failedSlides: number[] = [];
+  const completedSlides: number[] = [];
+  const overflows: ShapeOverflow[] = [];
+  const overBudget: LengthOverrun[] = [];
+  let preview = "";
 
-    const res = await translateAndMaybeApplySlide(targets, settings, logger, abortSignal, translationCache);
-    translatedTotal += res.translated;
-    if (!preview && res.preview) preview = res.preview;
+  const complete = async (slideIndex: number, res?: SlideResult) => {
+    if (res) {
+      translatedTotal += res.translated;
+      failedTotal += res.failed;
+      overflows.push(...res.overflows);
+      overBudget.push(...res.overBudget);
+      if (!preview && res.preview) preview = res.preview;
+    }
+    completedSlides.push(slideIndex);
+    await checkpoint(slideIndex, !res?.failed);
+  };
+  // False when the run must stop (cancelled).
+  const fail = (slideIndex: number, e: unknown): boolean => {
+    if (isAbortError(e)) return false;
+    // Credentials problems will hit every slide: stop instead of failing N times.
+    if (classifyError(e) === "fatal") throw e;
+    failedSlides.push(slideIndex);
+    logger.log(`Slide ${slideIndex + 1} — échec: ${errorMessage(e)}. Passage à la suivante.`, "error");
+    return true;
+  };
+
+  if (settings.deckBatching && indices.length > 1) {
+    await translateDeck(indices, settings, logger, onProgress, translationCache, complete, fail, abortSignal);
+  } else {
+    await translatePipelined(indices, settings, logger, onProgress, translationCache, complete, fail, selection, abortSignal);
+  }
 
-    onProgress(i + 1, total, `Slide ${slideIndex + 1} terminé`);
+  if (abortSignal?.aborted) {
+    const done = new Set([...completedSlides, ...failedSlides]);
+    const untouched = indices.filter((idx) => !done.has(idx));
+    const list = (xs: number[]) => (xs.length ? xs.map((x) => x + 1).join(", ") : "aucune");
+    logger.log(`Annulé — slide(s) terminée(s) : ${list(completedSlides)} · non modifiée(s) : ${list(untouched)}`, "warn");
+  }
+
+  if (job) {
+    if (abortSignal?.aborted || failedSlides.length || failedTotal) {
+      logger.log("Tâche conservée : elle pourra être reprise depuis le volet.", "dim");
+    } else {
+      await clearJob().catch((e) => logger.log(`Tâche terminée mais non effacée du document : ${errorMessage(e)}`, "warn"));
+    }
   }
 
   onProgress(total, total, abortSignal?.aborted ? "Annulé" : "Terminé");
-  return { translated: translatedTotal, preview };
+  return { translated: translatedTotal, failed: failedTotal, failedSlides, overflows, overBudget, preview };
 }
@@ -0,0 +1,57 @@
+import type { ProviderId, Settings, TranslationResult } from "../utils/types";
+import type { TranslateBatchItem } from "./openai";
+import { OpenAIError, openAICompatibleProvider, openAIResponsesProvider } from "./openai";
+import { deeplProvider } from "./deepl";
+import { mockProvider } from "./mock";
+import { isProxyMode, testProxy, translateViaProxy } from "./proxy";
+
+export interface TranslationProvider {
+  id: ProviderId;
+  label: string;
+  /** Model used when `Settings.model` is empty ("" = the user must pick one). */
+  defaultModel: string;
+  needsApiKey: boolean;
+  /** The vendor sends no CORS headers: the taskpane can only reach it through the proxy. */
+  needsProxy?: boolean;
+  test(settings: Settings): Promise<void>;
+  translate(items: TranslateBatchItem[], settings: Settings, signal?: AbortSignal): Promise<TranslationResult[]>;
+}
+
+export const PROVIDERS: TranslationProvider[] = [
+  openAIResponsesProvider,
+  openAICompatibleProvider,
+  deeplProvider,
+  mockProvider
+];
+
+export function getProvider(settings: Settings): TranslationProvider {
+  return PROVIDERS.find((p) => p.id === settings.provider) ?? openAIResponsesProvider;
+}
+
+export function resolveModel(settings: Settings): string {
+  return settings.model.trim() || getProvider(settings).defaultModel;
+}
+
+// No status: fatal, the browser would only report a TypeError on every request.
+function assertReachable(provider: TranslationProvider) {
+  if (provider.needsProxy) throw new OpenAIError(`${provider.label} nécessite le proxy (pas de CORS côté ${provider.label}).`);
+}
+
+export async function translateBatch(
+  items: TranslateBatchItem[],
+  settings: Settings,
+  signal?: AbortSignal
+): Promise<TranslationResult[]> {
+  // In proxy mode the provider runs server-side; the proxy resolves the model itself.
+  if (isProxyMode(settings)) return translateViaProxy(items, settings, signal);
+  const provider = getProvider(settings);
+  assertReachable(provider);
+  return provider.translate(items, { ...settings, model: resolveModel(settings) }, signal);
+}
+
+export async function testProvider(settings: Settings): Promise<void> {
+  if (isProxyMode(settings)) return testProxy(settings);
+  const provider = getProvider(settings);
+  assertReachable(provider);
+  await provider.test({ ...settings, model: resolveModel(settings) });
+}
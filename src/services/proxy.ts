@@ -0,0 +1,136 @@
+import type { Settings, TranslationResult } from "../utils/types";
+import type { TranslateBatchItem } from "./openai";
+import { OpenAIError, parseRetryAfter } from "./openai";
+import { connectSrcAllows } from "../utils/csp";
+
+/**
+ * Settings forwarded to the proxy. Credentials and endpoints (`apiKey`,
+ * `baseUrl`) are deliberately absent: the proxy owns them. `proxyToken`
+ * travels in the Authorization header.
+ */
+export const PROXY_SETTING_KEYS = [
+  "provider",
+  "model",
+  "fromLang",
+  "toLang",
+  "fitToLength",
+  "fitStrength",
+  "glossary",
+  "inlineMarkup"
+] as const;
+
+export type ProxyTranslateOptions = Pick<Settings, (typeof PROXY_SETTING_KEYS)[number]>;
+
+export interface ProxyTranslateRequest {
+  items: TranslateBatchItem[];
+  options: ProxyTranslateOptions;
+}
+
+export interface ProxyTranslateResponse {
+  items: TranslationResult[];
+}
+
+export interface ProxyHealthResponse {
+  providers: { id: Settings["provider"]; defaultModel: string }[];
+}
+
+export function isProxyMode(settings: Settings): boolean {
+  return Boolean(settings.proxyUrl?.trim());
+}
+
+function proxyEndpoint(proxyUrl: string, path: string): string {
+  return `${proxyUrl.trim().replace(/\/+$/, "")}${path}`;
+}
+
+function proxyHeaders(settings: Settings): Record<string, string> {
+  return settings.proxyToken ? { Authorization: `Bearer ${settings.proxyToken}` } : {};
+}
+
+/**
+ * Message explaining why the taskpane's CSP blocks this proxy URL, or null when
+ * it may be called. Without this check the browser only reports a TypeError.
+ */
+export function proxyUrlError(proxyUrl: string): string | null {
+  const url = proxyUrl.trim();
+  if (!url) return null;
+  try {
+    new URL(url);
+  } catch {
+    return `URL du proxy invalide : « ${url} ».`;
+  }
+  if (typeof document === "undefined") return null;
+  const csp = document.querySelector<HTMLMetaElement>('meta[http-equiv="Content-Security-Policy"]')?.content;
+  if (!csp || connectSrcAllows(csp, url, location.origin)) return null;
+  return `Le proxy ${new URL(url).origin} n'est pas autorisé par le connect-src du panneau : rebuild l'add-in avec VITE_PROXY_URL=${url}.`;
+}
+
+function assertProxyAllowed(settings: Settings) {
+  const error = proxyUrlError(settings.proxyUrl);
+  // No status: fatal, the run stops instead of retrying a blocked request.
+  if (error) throw new OpenAIError(error);
+}
+
+export function pickProxyOptions(settings: Settings): ProxyTranslateOptions {
+  const out: Partial<ProxyTranslateOptions> = {};
+  for (const key of PROXY_SETTING_KEYS) {
+    (out as any)[key] = settings[key];
+  }
+  return out as ProxyTranslateOptions;
+}
+
+async function readProxyJSON(res: Response): Promise<any> {
+  const json = await res.json().catch(() => ({}));
+  // The proxy has no credentials for this provider: a setup problem, not a per-chunk one.
+  if (json?.error?.code === "provider_unavailable") {
+    throw new OpenAIError((json.error.message as string) || "Fournisseur non disponible sur le proxy.");
+  }
+  if (!res.ok) {
+    throw new OpenAIError(
+      (json?.error?.message as string) || "Erreur proxy",
+      res.status,
+      json,
+      parseRetryAfter(res.headers.get("retry-after"))
+    );
+  }
+  return json;
+}
+
+export async function translateViaProxy(
+  items: TranslateBatchItem[],
+  settings: Settings,
+  signal?: AbortSignal
+): Promise<TranslationResult[]> {
+  if (!items.length) return [];
+  assertProxyAllowed(settings);
+
+  const body: ProxyTranslateRequest = { items, options: pickProxyOptions(settings) };
+  const res = await fetch(proxyEndpoint(settings.proxyUrl, "/translate"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...proxyHeaders(settings) },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  const json = (await readProxyJSON(res)) as Partial<ProxyTranslateResponse>;
+  if (!Array.isArray(json?.items)) {
+    throw new OpenAIError("Réponse proxy inattendue.", res.status, json);
+  }
+  return json.items;
+}
+
+export async function testProxy(settings: Settings): Promise<void> {
+  assertProxyAllowed(settings);
+  const res = await fetch(proxyEndpoint(settings.proxyUrl, "/health"), {
+    method: "GET",
+    headers: proxyHeaders(settings)
+  });
+  const json = (await readProxyJSON(res)) as Partial<ProxyHealthResponse>;
+  const available = Array.isArray(json?.providers) ? json.providers : [];
+  if (!available.some((p) => p.id === settings.provider)) {
+    throw new OpenAIError(
+      `Le proxy ne propose pas ce fournisseur (disponibles : ${available.map((p) => p.id).join(", ") || "aucun"}).`,
+      res.status,
+      json
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { OpenAIError } from "./openai";
+
+export type ErrorClass = "retryable" | "permanent" | "fatal";
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+// Longer waits asked through Retry-After stop the run instead of stalling it.
+const MAX_RETRY_AFTER_MS = 120000;
+
+/**
+ * - retryable: worth the same request again (network, 408/429/5xx, unparsable output)
+ * - permanent: this request will not succeed as-is (400, 413, 422…); a smaller batch may
+ * - fatal: nothing will succeed for this run (credentials, unknown model, quota, configuration)
+ */
+export function classifyError(e: unknown): ErrorClass {
+  if (isAbortError(e)) return "fatal";
+  if (e instanceof OpenAIError) {
+    const status = e.status;
+    // No status: raised locally (missing key/model/endpoint, unreachable network, proxy not configured).
+    if (status === undefined) return "fatal";
+    if (status === 401 || status === 403 || status === 404 || status === 456) return "fatal";
+    if (status === 408 || status === 429 || status >= 500) return "retryable";
+    if (status >= 200 && status < 300) return "retryable";
+    return "permanent";
+  }
+  // fetch rejects with a TypeError on network failures / CORS / CSP.
+  if (e instanceof TypeError) return "retryable";
+  return "permanent";
+}
+
+export function isAbortError(e: unknown): boolean {
+  return (e as any)?.name === "AbortError";
+}
+
+export function errorMessage(e: unknown): string {
+  return (e as any)?.message ?? String(e);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function backoffDelay(attempt: number, opts: RetryOptions, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const exp = opts.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * opts.baseDelayMs;
+  return Math.min(exp + jitter, opts.maxDelayMs);
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  opts: RetryOptions = DEFAULT_RETRY,
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  let attempt = 0;
+  while (true) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (classifyError(e) !== "retryable") throw e;
+      if (attempt >= opts.retries) {
+        // The network (or the CSP) rejected every attempt: the next chunks would fail the same way.
+        if (e instanceof TypeError) {
+          throw new OpenAIError(`Service injoignable après ${attempt + 1} essai(s) : ${e.message} (réseau, URL ou CSP).`);
+        }
+        throw e;
+      }
+      const retryAfterMs = e instanceof OpenAIError ? e.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw new OpenAIError(
+          `Limite de débit atteinte : le fournisseur demande d'attendre ${Math.ceil(retryAfterMs / 1000)} s. Relance plus tard.`
+        );
+      }
+      const delay = backoffDelay(attempt, opts, retryAfterMs);
+      onRetry?.(attempt + 1, delay, e);
+      await sleep(delay, signal);
+      attempt++;
+    }
+  }
+}
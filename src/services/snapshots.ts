@@ -0,0 +1,119 @@
+import type { Paragraph } from "../utils/types";
+import type { TableRunSnapshot } from "./ppt";
+import { loadDocumentValue, saveDocumentValue } from "./storage";
+
+const SNAPSHOT_KEY_PREFIX = "slideTranslate.original.v1.";
+
+export interface CellSnapshot {
+  row: number;
+  col: number;
+  runs: TableRunSnapshot[];
+  horizontalAlignment?: string | null;
+}
+
+export interface ShapeSnapshot {
+  paragraphs?: Paragraph[];
+  cells?: CellSnapshot[];
+  altText?: { altTextTitle?: string; altTextDescription?: string };
+}
+
+/** Original text + formatting of one slide, keyed by shape key (group path + id). */
+export interface SlideSnapshot {
+  savedAt: string;
+  shapes: Record<string, ShapeSnapshot>;
+  notes: Record<string, Paragraph[]>;
+}
+
+// Document settings are stored inside the file and are size-limited: each distinct
+// font is stored once in `fonts` and runs keep its index.
+interface StoredSlideSnapshot extends SlideSnapshot {
+  fonts?: unknown[];
+}
+
+function snapshotKey(slideId: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}${slideId}`;
+}
+
+function mapRunFonts(snapshot: SlideSnapshot, map: (font: any) => any): SlideSnapshot {
+  const runs = <T extends { font?: any }>(items: T[]): T[] =>
+    items.map((r) => (r.font === undefined ? r : { ...r, font: map(r.font) }));
+  const paragraphs = (items: Paragraph[]) => items.map((p) => ({ ...p, runs: runs(p.runs) }));
+
+  const shapes: Record<string, ShapeSnapshot> = {};
+  for (const [ref, snap] of Object.entries(snapshot.shapes)) {
+    shapes[ref] = {
+      ...snap,
+      paragraphs: snap.paragraphs && paragraphs(snap.paragraphs),
+      cells: snap.cells?.map((c) => ({ ...c, runs: runs(c.runs) }))
+    };
+  }
+  const notes: Record<string, Paragraph[]> = {};
+  for (const [id, items] of Object.entries(snapshot.notes)) notes[id] = paragraphs(items);
+  return { savedAt: snapshot.savedAt, shapes, notes };
+}
+
+function packSnapshot(snapshot: SlideSnapshot): StoredSlideSnapshot {
+  const fonts: unknown[] = [];
+  const indexByKey = new Map<string, number>();
+  const packed = mapRunFonts(snapshot, (font) => {
+    const key = JSON.stringify(font);
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = fonts.push(font) - 1;
+      indexByKey.set(key, index);
+    }
+    return index;
+  });
+  return { ...packed, fonts };
+}
+
+function saveSnapshot(slideId: string, snapshot: SlideSnapshot | null): Promise<void> {
+  return saveDocumentValue(snapshotKey(slideId), snapshot && packSnapshot(snapshot));
+}
+
+export function loadSlideSnapshot(slideId: string): SlideSnapshot | null {
+  const stored = loadDocumentValue<StoredSlideSnapshot>(snapshotKey(slideId));
+  if (!stored || !Array.isArray(stored.fonts)) return stored; // older records keep full fonts
+  const fonts = stored.fonts;
+  return mapRunFonts(stored, (index) => fonts[index]);
+}
+
+/**
+ * Merges `next` into the stored snapshot without overwriting what is already
+ * there: after a second translation the stored text must still be the source.
+ */
+export async function saveSlideSnapshot(slideId: string, next: SlideSnapshot): Promise<void> {
+  const current = loadSlideSnapshot(slideId);
+  if (!current) {
+    await saveSnapshot(slideId, next);
+    return;
+  }
+
+  const merged: SlideSnapshot = { ...current, shapes: { ...current.shapes }, notes: { ...current.notes } };
+  for (const [ref, snap] of Object.entries(next.shapes)) {
+    const cur = merged.shapes[ref] ?? {};
+    const cells = [...(cur.cells ?? [])];
+    for (const c of snap.cells ?? []) {
+      if (!cells.some((x) => x.row === c.row && x.col === c.col)) cells.push(c);
+    }
+    merged.shapes[ref] = {
+      paragraphs: cur.paragraphs ?? snap.paragraphs,
+      cells: cells.length ? cells : undefined,
+      altText: snap.altText || cur.altText ? { ...snap.altText, ...cur.altText } : undefined
+    };
+  }
+  for (const [id, paragraphs] of Object.entries(next.notes)) {
+    merged.notes[id] ??= paragraphs;
+  }
+  await saveSnapshot(slideId, merged);
+}
+
+/** Drops restored entries; removes the whole record once it is empty. */
+export async function forgetSnapshotEntries(slideId: string, shapeRefs: string[], notesIds: string[]): Promise<void> {
+  const current = loadSlideSnapshot(slideId);
+  if (!current) return;
+  for (const ref of shapeRefs) delete current.shapes[ref];
+  for (const id of notesIds) delete current.notes[id];
+  const empty = !Object.keys(current.shapes).length && !Object.keys(current.notes).length;
+  await saveSnapshot(slideId, empty ? null : current);
+}
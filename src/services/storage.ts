@@ -4,16 +4,43 @@ const STORAGE_KEY = "slideTranslate.settings.v1";
 
 export function defaultSettings(): Settings {
   return {
+    provider: "openai",
+    model: "",
+    baseUrl: "",
     apiKey: "",
+    proxyUrl: import.meta.env.VITE_PROXY_URL ?? "",
+    proxyToken: "",
     fromLang: "auto",
     toLang: "en",
     scope: "current",
+    slideRange: "",
+    skipHidden: false,
+    onlyTag: "",
     mode: "apply",
+    deckBatching: false,
+    copyPlacement: "after",
     keepLineBreaks: true,
+    bilingual: false,
+    bilingualStyle: { italic: true, color: "#7F7F7F", sizePercent: 90 },
+    sendContext: true,
+    inlineMarkup: false,
+    includeNotes: false,
+    translateAltText: false,
     fitToLength: false,
     fitStrength: 60,
+    overflowStrategy: "flag",
+    minFontSize: 10,
     glossary: {},
+    scriptFonts: {
+      japanese: "Yu Gothic",
+      chinese: "Microsoft YaHei",
+      korean: "Malgun Gothic",
+      thai: "Leelawadee UI",
+      devanagari: "Nirmala UI",
+      arabic: "Segoe UI"
+    },
     ignoreRegex: "",
+    protectedPatterns: [],
     applyUnderline: true
   };
 }
@@ -46,6 +73,31 @@ export async function loadSettings(): Promise<Settings> {
   return { ...base, ...(local ?? {}) };
 }
 
+// Per-document values (travel with the .pptx, unlike roamingSettings).
+export function loadDocumentValue<T>(key: string): T | null {
+  try {
+    const val = Office.context?.document?.settings?.get(key);
+    return val === undefined || val === null ? null : (val as T);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveDocumentValue(key: string, value: unknown): Promise<void> {
+  const ds = Office.context?.document?.settings;
+  if (!ds) return;
+  const previous = ds.get(key);
+  if (value === null || value === undefined) ds.remove(key);
+  else ds.set(key, value);
+  const result = await new Promise<Office.AsyncResult<void>>((resolve) => ds.saveAsync(resolve));
+  if (result.status === Office.AsyncResultStatus.Failed) {
+    // Roll back in memory as well, or every later save would carry the rejected value.
+    if (previous === null || previous === undefined) ds.remove(key);
+    else ds.set(key, previous);
+    throw new Error(`Enregistrement dans le document impossible : ${result.error?.message || "échec inconnu"}`);
+  }
+}
+
 export async function saveSettings(next: Settings): Promise<void> {
   try {
     const rs = Office.context?.roamingSettings;
@@ -0,0 +1,78 @@
+import type { TranslationResult } from "../utils/types";
+import type { TranslateBatchItem } from "./openai";
+import { parseMarkup } from "../utils/markup";
+
+export interface ValidationIssue {
+  paragraphId: string;
+  reason: string;
+  markup?: boolean; // inline tags came back malformed: ask again with run indices
+}
+
+function checkRuns(item: TranslateBatchItem, result: TranslationResult): string | null {
+  const runs = result.translatedRuns;
+  if (!Array.isArray(runs)) return "translatedRuns absent";
+  if (runs.length !== item.runs.length) {
+    return `${runs.length} run(s) renvoyé(s) au lieu de ${item.runs.length}`;
+  }
+
+  const expected = new Set(item.runs.map((r) => r.index));
+  const seen = new Set<number>();
+  for (const r of runs) {
+    if (!Number.isInteger(r?.index) || !expected.has(r.index)) return `index de run invalide (${r?.index})`;
+    if (seen.has(r.index)) return `index de run dupliqué (${r.index})`;
+    if (typeof r.text !== "string") return `texte manquant pour le run ${r.index}`;
+    seen.add(r.index);
+  }
+  return null;
+}
+
+/**
+ * Compares the provider output with what was asked. Only fully consistent
+ * results are returned as valid: a half-matching result would be applied
+ * half-way by `applyRunTranslations`.
+ */
+export function validateResults(
+  items: TranslateBatchItem[],
+  results: TranslationResult[]
+): { valid: TranslationResult[]; invalid: ValidationIssue[]; unknownIds: string[] } {
+  const byId = new Map<string, TranslationResult>();
+  const unknownIds: string[] = [];
+  const requested = new Set(items.map((i) => i.paragraphId));
+
+  for (const r of Array.isArray(results) ? results : []) {
+    const id = r?.paragraphId;
+    if (typeof id !== "string" || !requested.has(id)) {
+      unknownIds.push(String(id));
+      continue;
+    }
+    // Keep the first answer when the model repeats an item.
+    if (!byId.has(id)) byId.set(id, r);
+  }
+
+  const valid: TranslationResult[] = [];
+  const invalid: ValidationIssue[] = [];
+  for (const item of items) {
+    const r = byId.get(item.paragraphId);
+    if (!r) {
+      invalid.push({ paragraphId: item.paragraphId, reason: "absent de la réponse" });
+      continue;
+    }
+    const problem = checkRuns(item, r);
+    if (problem) {
+      invalid.push({ paragraphId: item.paragraphId, reason: problem });
+      continue;
+    }
+    if (item.markup) {
+      const segments = parseMarkup(item.runs[0].text, r.translatedRuns[0].text, item.runs[0].index);
+      if (!segments) {
+        invalid.push({ paragraphId: item.paragraphId, reason: "balises inline mal formées", markup: true });
+        continue;
+      }
+      valid.push({ paragraphId: item.paragraphId, translatedRuns: segments, reordered: true });
+      continue;
+    }
+    valid.push({ paragraphId: item.paragraphId, translatedRuns: r.translatedRuns });
+  }
+
+  return { valid, invalid, unknownIds };
+}
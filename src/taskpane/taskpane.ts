@@ -1,10 +1,14 @@
-import { LANGUAGES } from "../utils/language";
-import type { Settings, Scope, Mode } from "../utils/types";
+import { LANGUAGES, TARGET_SCRIPTS, parseScriptFonts } from "../utils/language";
+import type { Settings, Scope, Mode, ProviderId, CopyPlacement, OverflowStrategy, SlideAnalysis } from "../utils/types";
 import { parseGlossaryText } from "../utils/text";
 import { Logger } from "../services/logger";
-import { analyzeScope, translateScope } from "../services/ppt";
+import { analyzeScope, notesSupported, restoreOriginals, translateScope } from "../services/ppt";
+import type { RestoreTarget } from "../services/ppt";
 import { loadSettings, saveSettings, defaultSettings } from "../services/storage";
-import { testOpenAIKey } from "../services/openai";
+import { clearJob, loadJob } from "../services/jobs";
+import type { TranslationJob } from "../services/jobs";
+import { PROVIDERS, getProvider, resolveModel, testProvider } from "../services/providers";
+import { isProxyMode, proxyUrlError } from "../services/proxy";
 
 function $(id: string): HTMLElement {
   const el = document.getElementById(id);
@@ -34,30 +38,106 @@ function updateFitLabel() {
   $("fitStrengthLabel").textContent = `${v}%`;
 }
 
+function updateBilingualSizeLabel() {
+  const v = Number(($("bilingualSize") as HTMLInputElement).value);
+  $("bilingualSizeLabel").textContent = `${v}%`;
+}
+
+function updateProviderUI() {
+  const current: Settings = {
+    ...settings,
+    provider: ( $("provider") as HTMLSelectElement).value as ProviderId,
+    model: ( $("model") as HTMLInputElement).value.trim(),
+    proxyUrl: ( $("proxyUrl") as HTMLInputElement).value.trim()
+  };
+  const provider = getProvider(current);
+  const proxy = isProxyMode(current);
+  ( $("model") as HTMLInputElement).placeholder = provider.defaultModel || "Ex: llama3.1:8b";
+  $("proxyHint").toggleAttribute("hidden", !proxy);
+  $("proxyTokenField").toggleAttribute("hidden", !proxy);
+  $("providerProxyHint").toggleAttribute("hidden", proxy || !provider.needsProxy);
+  const proxyError = proxyUrlError(current.proxyUrl);
+  $("proxyUrlError").textContent = proxyError ?? "";
+  $("proxyUrlError").toggleAttribute("hidden", !proxyError);
+  $("baseUrlField").toggleAttribute("hidden", proxy || provider.id !== "openaiCompatible");
+  $("apiKeyField").toggleAttribute("hidden", proxy || provider.id === "mock");
+  $("modelLabel").textContent = resolveModel(current) || "—";
+}
+
 function readUI(): Settings {
+  const proxyUrl = ( $("proxyUrl") as HTMLInputElement).value.trim();
   const next: Settings = {
     ...settings,
-    apiKey: ( $("apiKey") as HTMLInputElement).value.trim(),
+    proxyUrl,
+    provider: ( $("provider") as HTMLSelectElement).value as ProviderId,
+    model: ( $("model") as HTMLInputElement).value.trim(),
+    baseUrl: ( $("baseUrl") as HTMLInputElement).value.trim(),
+    // Never keep a vendor key around once the proxy handles credentials.
+    apiKey: proxyUrl ? "" : ( $("apiKey") as HTMLInputElement).value.trim(),
+    proxyToken: proxyUrl ? ( $("proxyToken") as HTMLInputElement).value.trim() : "",
     fromLang: ( $("fromLang") as HTMLSelectElement).value,
     toLang: ( $("toLang") as HTMLSelectElement).value,
+    slideRange: ( $("slideRange") as HTMLInputElement).value.trim(),
+    skipHidden: ( $("skipHidden") as HTMLInputElement).checked,
+    onlyTag: ( $("onlyTag") as HTMLInputElement).value.trim(),
     keepLineBreaks: ( $("keepLineBreaks") as HTMLInputElement).checked,
+    bilingual: ( $("bilingual") as HTMLInputElement).checked,
+    bilingualStyle: {
+      italic: ( $("bilingualItalic") as HTMLInputElement).checked,
+      color: ( $("bilingualColor") as HTMLInputElement).value.trim(),
+      sizePercent: Number(( $("bilingualSize") as HTMLInputElement).value)
+    },
+    sendContext: ( $("sendContext") as HTMLInputElement).checked,
+    inlineMarkup: ( $("inlineMarkup") as HTMLInputElement).checked,
+    deckBatching: ( $("deckBatching") as HTMLInputElement).checked,
+    includeNotes: ( $("includeNotes") as HTMLInputElement).checked,
+    translateAltText: ( $("translateAltText") as HTMLInputElement).checked,
+    copyPlacement: ( $("copyPlacement") as HTMLSelectElement).value as CopyPlacement,
     fitToLength: ( $("fitToLength") as HTMLInputElement).checked,
     fitStrength: Number(( $("fitStrength") as HTMLInputElement).value),
+    overflowStrategy: ( $("overflowStrategy") as HTMLSelectElement).value as OverflowStrategy,
+    minFontSize: Number(( $("minFontSize") as HTMLInputElement).value) || 10,
     glossary: parseGlossaryText(( $("glossary") as HTMLTextAreaElement).value),
+    scriptFonts: parseScriptFonts(( $("scriptFonts") as HTMLTextAreaElement).value).fonts,
     ignoreRegex: ( $("ignoreRegex") as HTMLInputElement).value,
+    protectedPatterns: ( $("protectedPatterns") as HTMLTextAreaElement).value
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter(Boolean),
     applyUnderline: ( $("applyUnderline") as HTMLInputElement).checked
   };
   return next;
 }
 
 async function writeUI(s: Settings) {
+  ( $("provider") as HTMLSelectElement).value = s.provider;
+  ( $("model") as HTMLInputElement).value = s.model;
+  ( $("baseUrl") as HTMLInputElement).value = s.baseUrl;
+  ( $("proxyUrl") as HTMLInputElement).value = s.proxyUrl;
+  ( $("proxyToken") as HTMLInputElement).value = s.proxyToken;
   ( $("apiKey") as HTMLInputElement).value = s.apiKey;
   ( $("fromLang") as HTMLSelectElement).value = s.fromLang;
   ( $("toLang") as HTMLSelectElement).value = s.toLang;
+  ( $("slideRange") as HTMLInputElement).value = s.slideRange;
+  ( $("skipHidden") as HTMLInputElement).checked = s.skipHidden;
+  ( $("onlyTag") as HTMLInputElement).value = s.onlyTag;
   ( $("keepLineBreaks") as HTMLInputElement).checked = s.keepLineBreaks;
+  ( $("bilingual") as HTMLInputElement).checked = s.bilingual;
+  ( $("bilingualItalic") as HTMLInputElement).checked = s.bilingualStyle.italic;
+  ( $("bilingualColor") as HTMLInputElement).value = s.bilingualStyle.color;
+  ( $("bilingualSize") as HTMLInputElement).value = String(s.bilingualStyle.sizePercent);
+  ( $("sendContext") as HTMLInputElement).checked = s.sendContext;
+  ( $("inlineMarkup") as HTMLInputElement).checked = s.inlineMarkup;
+  ( $("deckBatching") as HTMLInputElement).checked = s.deckBatching;
+  ( $("includeNotes") as HTMLInputElement).checked = s.includeNotes;
+  ( $("translateAltText") as HTMLInputElement).checked = s.translateAltText;
+  ( $("copyPlacement") as HTMLSelectElement).value = s.copyPlacement;
   ( $("fitToLength") as HTMLInputElement).checked = s.fitToLength;
   ( $("fitStrength") as HTMLInputElement).value = String(s.fitStrength);
+  ( $("overflowStrategy") as HTMLSelectElement).value = s.overflowStrategy;
+  ( $("minFontSize") as HTMLInputElement).value = String(s.minFontSize);
   ( $("ignoreRegex") as HTMLInputElement).value = s.ignoreRegex;
+  ( $("protectedPatterns") as HTMLTextAreaElement).value = s.protectedPatterns.join("\n");
   ( $("applyUnderline") as HTMLInputElement).checked = s.applyUnderline;
 
   // glossary back to text
@@ -65,30 +145,48 @@ async function writeUI(s: Settings) {
     .map((k) => `${k}=${s.glossary[k]}`)
     .join("\n");
   ( $("glossary") as HTMLTextAreaElement).value = g;
+  ( $("scriptFonts") as HTMLTextAreaElement).value = Object.entries(s.scriptFonts)
+    .map(([script, font]) => `${script}=${font}`)
+    .join("\n");
 
   // scope/mode segmented
   setScopeUI(s.scope);
   setModeUI(s.mode);
 
   updateFitLabel();
+  updateBilingualSizeLabel();
+  updateProviderUI();
 }
 
 function setScopeUI(scope: Scope) {
   const cur = $("scopeCurrent");
   const all = $("scopeAll");
+  const range = $("scopeRange");
+  const sel = $("scopeSelection");
   cur.classList.toggle("active", scope === "current");
   all.classList.toggle("active", scope === "all");
+  range.classList.toggle("active", scope === "range");
+  sel.classList.toggle("active", scope === "selection");
   cur.setAttribute("aria-selected", scope === "current" ? "true" : "false");
   all.setAttribute("aria-selected", scope === "all" ? "true" : "false");
+  range.setAttribute("aria-selected", scope === "range" ? "true" : "false");
+  sel.setAttribute("aria-selected", scope === "selection" ? "true" : "false");
+  $("slideRangeField").toggleAttribute("hidden", scope !== "range");
 }
 
 function setModeUI(mode: Mode) {
   const a = $("modeApply");
   const p = $("modePreview");
+  const c = $("modeCopy");
+  const u = $("modeUpdate");
   a.classList.toggle("active", mode === "apply");
   p.classList.toggle("active", mode === "preview");
+  c.classList.toggle("active", mode === "copy");
+  u.classList.toggle("active", mode === "update");
   a.setAttribute("aria-selected", mode === "apply" ? "true" : "false");
   p.setAttribute("aria-selected", mode === "preview" ? "true" : "false");
+  c.setAttribute("aria-selected", mode === "copy" ? "true" : "false");
+  u.setAttribute("aria-selected", mode === "update" ? "true" : "false");
 }
 
 async function persistFromUI() {
@@ -118,6 +216,101 @@ function initLanguageSelects() {
   }
 }
 
+function initProviderSelect() {
+  const select = $("provider") as HTMLSelectElement;
+  select.innerHTML = "";
+  for (const provider of PROVIDERS) {
+    const o = document.createElement("option");
+    o.value = provider.id;
+    o.textContent = provider.label;
+    select.appendChild(o);
+  }
+}
+
+async function runTranslation(resume?: TranslationJob) {
+  if (abortController) return;
+
+  abortController = new AbortController();
+  ( $("cancelBtn") as HTMLButtonElement).disabled = false;
+
+  try {
+    setStatus(resume ? "Reprise…" : "Traduction…", "busy");
+    await persistFromUI();
+    const fontsError = resume ? null : updateScriptFontsUI();
+    if (fontsError) throw new Error(fontsError);
+
+    // A resumed job keeps the settings it started with; only the credentials are current.
+    const runSettings = resume
+      ? { ...resume.settings, apiKey: settings.apiKey, proxyToken: settings.proxyToken }
+      : settings;
+    const res = await translateScope(
+      runSettings,
+      logger,
+      (done, total, label) => {
+        setProgress(done, total);
+        $("metrics").textContent = label;
+      },
+      abortController.signal,
+      resume
+    );
+
+    if (runSettings.mode === "preview" && res.preview) {
+      logger.log("Prévisualisation (extrait) :", "dim");
+      logger.log(res.preview, "info");
+    }
+
+    logger.log(`Terminé. Paragraphes traduits: ${res.translated}.`, "info");
+    if (res.failed || res.failedSlides.length) {
+      const slides = res.failedSlides.map((s) => s + 1).join(", ");
+      logger.log(
+        `${res.failed} paragraphe(s) non traduit(s)${slides ? ` · slide(s) en échec : ${slides}` : ""}.`,
+        "warn"
+      );
+    }
+    if (res.overBudget.length) {
+      const paragraphs = res.overBudget
+        .map((o) => `slide ${o.slideIndex + 1} › ${o.label} (${Math.round(o.ratio * 100)} %)`)
+        .join(", ");
+      logger.log(`${res.overBudget.length} paragraphe(s) au-delà du budget de longueur, à vérifier : ${paragraphs}.`, "warn");
+    }
+    if (res.overflows.length) {
+      const shapes = res.overflows.map((o) => `slide ${o.slideIndex + 1} › ${o.label}`).join(", ");
+      logger.log(`${res.overflows.length} forme(s) à vérifier (débordement probable) : ${shapes}.`, "warn");
+    }
+    setStatus(abortController.signal.aborted ? "Annulé" : "Prêt", "ready");
+  } catch (e: any) {
+    logger.log(`Traduction échouée: ${e?.message ?? e}`, "error");
+    setStatus("Erreur", "error");
+  } finally {
+    abortController = null;
+    ( $("cancelBtn") as HTMLButtonElement).disabled = true;
+    updateResumeUI();
+  }
+}
+
+/** Error for script names the field does not know (dropped from the settings), or null. */
+function scriptFontsError(): string | null {
+  const { unknown } = parseScriptFonts(( $("scriptFonts") as HTMLTextAreaElement).value);
+  if (!unknown.length) return null;
+  return `Écriture(s) inconnue(s) dans « Polices par écriture cible » : ${unknown.join(", ")} (attendu : ${TARGET_SCRIPTS.join(", ")}).`;
+}
+
+function updateScriptFontsUI(): string | null {
+  const error = scriptFontsError();
+  $("scriptFontsError").textContent = error ?? "";
+  $("scriptFontsError").toggleAttribute("hidden", !error);
+  return error;
+}
+
+function updateResumeUI() {
+  const job = loadJob();
+  $("resumeField").toggleAttribute("hidden", !job);
+  if (!job) return;
+  const date = new Date(job.updatedAt).toLocaleString("fr-FR");
+  $("resumeInfo").textContent =
+    `Tâche interrompue : ${job.completed.length}/${job.slideIds.length} slide(s) traitée(s) (${date}).`;
+}
+
 function bindEvents() {
   // advanced accordion
   const toggle = $("advancedToggle");
@@ -138,6 +331,16 @@ function bindEvents() {
     setScopeUI(settings.scope);
     await persistFromUI();
   });
+  $("scopeRange").addEventListener("click", async () => {
+    settings.scope = "range";
+    setScopeUI(settings.scope);
+    await persistFromUI();
+  });
+  $("scopeSelection").addEventListener("click", async () => {
+    settings.scope = "selection";
+    setScopeUI(settings.scope);
+    await persistFromUI();
+  });
 
   $("modeApply").addEventListener("click", async () => {
     settings.mode = "apply";
@@ -149,35 +352,83 @@ function bindEvents() {
     setModeUI(settings.mode);
     await persistFromUI();
   });
+  $("modeCopy").addEventListener("click", async () => {
+    settings.mode = "copy";
+    setModeUI(settings.mode);
+    await persistFromUI();
+  });
+  $("modeUpdate").addEventListener("click", async () => {
+    settings.mode = "update";
+    setModeUI(settings.mode);
+    await persistFromUI();
+  });
 
   $("fitStrength").addEventListener("input", () => {
     updateFitLabel();
   });
+  $("bilingualSize").addEventListener("input", () => {
+    updateBilingualSizeLabel();
+  });
+
+  $("provider").addEventListener("change", () => {
+    // Model names are provider-specific: fall back to the new provider's default.
+    ( $("model") as HTMLInputElement).value = "";
+    updateProviderUI();
+  });
+  $("model").addEventListener("input", () => updateProviderUI());
+  $("proxyUrl").addEventListener("input", () => updateProviderUI());
 
   // auto-save on changes
   const autosaveIds = [
+    "proxyUrl",
+    "proxyToken",
+    "provider",
+    "model",
+    "baseUrl",
     "apiKey",
     "fromLang",
     "toLang",
+    "slideRange",
+    "skipHidden",
+    "onlyTag",
     "keepLineBreaks",
+    "bilingual",
+    "bilingualItalic",
+    "bilingualColor",
+    "bilingualSize",
+    "sendContext",
+    "inlineMarkup",
+    "deckBatching",
+    "includeNotes",
+    "translateAltText",
+    "copyPlacement",
     "fitToLength",
     "fitStrength",
+    "overflowStrategy",
+    "minFontSize",
     "glossary",
+    "scriptFonts",
     "ignoreRegex",
+    "protectedPatterns",
     "applyUnderline"
   ];
   for (const id of autosaveIds) {
     $(id).addEventListener("change", () => void persistFromUI());
   }
 
+  $("scriptFonts").addEventListener("change", () => {
+    const error = updateScriptFontsUI();
+    if (error) logger.log(error, "error");
+  });
+
   $("clearLogsBtn").addEventListener("click", () => logger.clear());
 
   $("testKeyBtn").addEventListener("click", async () => {
     try {
       setStatus("Test clé…", "busy");
       await persistFromUI();
-      await testOpenAIKey(settings);
-      logger.log("Clé OpenAI OK ✅");
+      await testProvider(settings);
+      logger.log(`${getProvider(settings).label} OK ✅ (${resolveModel(settings) || "—"})`);
       setStatus("Prêt", "ready");
     } catch (e: any) {
       logger.log(`Test clé échoué: ${e?.message ?? e}`, "error");
@@ -190,19 +441,22 @@ function bindEvents() {
       setStatus("Analyse…", "busy");
       await persistFromUI();
       logger.log("Analyse de la portée…", "dim");
-      const analyses = await analyzeScope(settings, logger);
-      const totals = analyses.reduce(
-        (acc, s) => {
-          acc.textBoxes += s.textBoxes;
-          acc.tables += s.tables;
-          acc.paragraphs += s.paragraphs;
-          acc.characters += s.characters;
-          return acc;
-        },
-        { textBoxes: 0, tables: 0, paragraphs: 0, characters: 0 }
-      );
-      $("metrics").textContent = `${analyses.length} slide(s) · ${totals.textBoxes} zone(s) texte · ${totals.tables} table(s) · ${totals.paragraphs} paragraphes · ${totals.characters} caractères`;
-      logger.log("Analyse terminée.", "dim");
+      const analysis = await analyzeScope(settings, logger);
+      const sum = (pick: (s: SlideAnalysis) => number) => analysis.slides.reduce((acc, s) => acc + pick(s), 0);
+      const cost = analysis.cost
+        ? `≈ ${analysis.cost.amount.toLocaleString("fr-FR", {
+            style: "currency",
+            currency: analysis.cost.currency,
+            maximumFractionDigits: analysis.cost.amount < 1 ? 4 : 2
+          })}`
+        : "coût inconnu pour ce modèle";
+      const summary =
+        `${analysis.slides.length} slide(s) · ${sum((s) => s.textBoxes)} zone(s) texte · ${sum((s) => s.tableCells)} cellule(s) de table` +
+        (settings.includeNotes ? ` · ${sum((s) => s.notesParagraphs)} paragraphe(s) de notes` : "") +
+        ` · ${analysis.words} mots · ${analysis.characters} caractères · ${analysis.uniqueSegments} segment(s) uniques, ${analysis.repeatedSegments} répété(s)` +
+        ` · ~${analysis.inputTokens + analysis.outputTokens} jetons en ${analysis.requests} requête(s) · ${cost}`;
+      $("metrics").textContent = summary;
+      logger.log(`Analyse terminée — ${summary}.`, "dim");
       setStatus("Prêt", "ready");
     } catch (e: any) {
       logger.log(`Analyse échouée: ${e?.message ?? e}`, "error");
@@ -210,39 +464,41 @@ function bindEvents() {
     }
   });
 
-  $("translateBtn").addEventListener("click", async () => {
-    if (abortController) return;
+  $("translateBtn").addEventListener("click", () => runTranslation());
 
-    abortController = new AbortController();
-    ( $("cancelBtn") as HTMLButtonElement).disabled = false;
+  $("resumeBtn").addEventListener("click", () => {
+    const job = loadJob();
+    if (job) runTranslation(job);
+    else updateResumeUI();
+  });
 
+  $("discardJobBtn").addEventListener("click", async () => {
     try {
-      setStatus("Traduction…", "busy");
-      await persistFromUI();
+      await clearJob();
+      logger.log("Tâche interrompue abandonnée.", "dim");
+    } catch (e: any) {
+      logger.log(`Abandon de la tâche échoué: ${e?.message ?? e}`, "error");
+    }
+    updateResumeUI();
+  });
 
-      const res = await translateScope(
-        settings,
-        logger,
-        (done, total, label) => {
-          setProgress(done, total);
-          $("metrics").textContent = label;
-        },
-        abortController.signal
+  $("restoreBtn").addEventListener("click", async () => {
+    if (abortController) return;
+    try {
+      setStatus("Restauration…", "busy");
+      await persistFromUI();
+      const target = ( $("restoreTarget") as HTMLSelectElement).value as RestoreTarget;
+      const res = await restoreOriginals(target, settings, logger);
+      logger.log(
+        res.shapes
+          ? `Original restauré : ${res.shapes} forme(s) sur ${res.slides} slide(s).`
+          : "Aucun original enregistré pour cette portée.",
+        res.shapes ? "info" : "dim"
       );
-
-      if (settings.mode === "preview" && res.preview) {
-        logger.log("Prévisualisation (extrait) :", "dim");
-        logger.log(res.preview, "info");
-      }
-
-      logger.log(`Terminé. Paragraphes traduits: ${res.translated}.`, "info");
-      setStatus(abortController.signal.aborted ? "Annulé" : "Prêt", "ready");
+      setStatus("Prêt", "ready");
     } catch (e: any) {
-      logger.log(`Traduction échouée: ${e?.message ?? e}`, "error");
+      logger.log(`Restauration échouée: ${e?.message ?? e}`, "error");
       setStatus("Erreur", "error");
-    } finally {
-      abortController = null;
-      ( $("cancelBtn") as HTMLButtonElement).disabled = true;
     }
   });
 
@@ -255,10 +511,18 @@ function bindEvents() {
 Office.onReady(async () => {
   logger = new Logger($("logBox"));
   initLanguageSelects();
+  initProviderSelect();
   bindEvents();
 
   settings = await loadSettings();
   await writeUI(settings);
+  updateResumeUI();
+  if (!notesSupported()) {
+    const notes = $("includeNotes") as HTMLInputElement;
+    notes.checked = false;
+    notes.disabled = true;
+    $("includeNotesHint").textContent = "Non pris en charge par cet hôte PowerPoint : l'API ne donne pas accès aux notes.";
+  }
 
   logger.log("Add-in chargé. Sélectionne une slide puis clique sur Analyser ou Traduire.", "dim");
   setStatus("Prêt", "ready");
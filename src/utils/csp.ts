@@ -0,0 +1,33 @@
+/**
+ * Whether a `connect-src` directive lets the page fetch `url`. Handles the
+ * source forms used in taskpane.html: `'self'`, `*`, `scheme:` and
+ * `scheme://host[:port|:*]` (with an optional `*.` host wildcard).
+ */
+export function connectSrcAllows(csp: string, url: string, selfOrigin: string): boolean {
+  const directive = csp
+    .split(";")
+    .map((d) => d.trim().split(/\s+/))
+    .find(([name]) => name?.toLowerCase() === "connect-src");
+  if (!directive) return true;
+
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+
+  return directive.slice(1).some((source) => {
+    if (source === "'self'") return target.origin === selfOrigin;
+    if (source === "*") return true;
+    if (/^[a-z][a-z0-9+.-]*:$/i.test(source)) return target.protocol === source.toLowerCase();
+
+    const m = source.match(/^([a-z][a-z0-9+.-]*):\/\/([^/:]+)(?::(\d+|\*))?/i);
+    if (!m || target.protocol !== `${m[1].toLowerCase()}:`) return false;
+    const host = m[2].toLowerCase();
+    const hostOk = host.startsWith("*.") ? target.hostname.endsWith(host.slice(1)) : target.hostname === host;
+    const port = target.port || (target.protocol === "https:" ? "443" : "80");
+    const portOk = m[3] === "*" || port === (m[3] ?? (target.protocol === "https:" ? "443" : "80"));
+    return hostOk && portOk;
+  });
+}
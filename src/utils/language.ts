@@ -1,3 +1,6 @@
+import type { TargetScript } from "./types";
+import { parseGlossaryText } from "./text";
+
 export interface LanguageOption {
   code: string;
   label: string;
@@ -38,3 +41,57 @@ export const LANGUAGES: LanguageOption[] = [
 export function labelFor(code: string): string {
   return LANGUAGES.find((l) => l.code === code)?.label ?? code;
 }
+
+const RTL_LANGUAGES = new Set(["ar", "he", "fa", "ur"]);
+
+export function isRtlLanguage(code: string): boolean {
+  return RTL_LANGUAGES.has(code);
+}
+
+// Used when the source language is "auto": majority of strong RTL vs LTR letters.
+export function looksRtl(text: string): boolean {
+  const rtl = text.match(/[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/g)?.length ?? 0;
+  const ltr = text.match(/[A-Za-z\u00C0-\u024F\u0370-\u052F]/g)?.length ?? 0;
+  return rtl > ltr;
+}
+
+const LANGUAGE_SCRIPTS: Record<string, TargetScript> = {
+  ja: "japanese",
+  zh: "chinese",
+  ko: "korean",
+  th: "thai",
+  hi: "devanagari",
+  ar: "arabic"
+};
+
+// Characters that need the substitute font (no "g" flag: used with test()).
+const SCRIPT_PATTERNS: Record<TargetScript, RegExp> = {
+  japanese: /[\u3040-\u30FF\u3400-\u9FFF\uFF66-\uFF9F]/,
+  chinese: /[\u3400-\u9FFF\u3000-\u303F\uFF00-\uFFEF]/,
+  korean: /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/,
+  thai: /[\u0E00-\u0E7F]/,
+  devanagari: /[\u0900-\u097F]/,
+  arabic: /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/
+};
+
+export const TARGET_SCRIPTS = Object.keys(SCRIPT_PATTERNS) as TargetScript[];
+
+/** `écriture=Police` lines; keys that name no supported script are returned in `unknown`. */
+export function parseScriptFonts(input: string): {
+  fonts: Partial<Record<TargetScript, string>>;
+  unknown: string[];
+} {
+  const fonts: Partial<Record<TargetScript, string>> = {};
+  const unknown: string[] = [];
+  for (const [key, font] of Object.entries(parseGlossaryText(input))) {
+    const script = key.toLowerCase() as TargetScript;
+    if (TARGET_SCRIPTS.includes(script)) fonts[script] = font;
+    else unknown.push(key);
+  }
+  return { fonts, unknown };
+}
+
+export function scriptForLanguage(code: string): { script: TargetScript; pattern: RegExp } | undefined {
+  const script = LANGUAGE_SCRIPTS[code];
+  return script ? { script, pattern: SCRIPT_PATTERNS[script] } : undefined;
+}
@@ -0,0 +1,84 @@
+// Inline markup for styled runs: every run but the longest is wrapped in <rN>…</rN>
+// (N = run index), so that the provider can move styled words within the sentence.
+// Untagged text belongs to the longest run, whose index travels as the run index.
+const TAG_RE = /<(\/?)r(\d+)>/g;
+const STRAY_TAG_RE = /<\/?r\d/;
+
+export function escapeMarkup(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function unescapeMarkup(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+/** One tagged run standing for the whole paragraph, or null when there is no style change to carry. */
+export function toMarkup(runs: { index: number; text: string }[]): { index: number; text: string } | null {
+  const nonEmpty = runs.filter((r) => r.text);
+  if (nonEmpty.length < 2) return null;
+  const base = nonEmpty.reduce((a, r) => (r.text.trim().length > a.text.trim().length ? r : a));
+  const text = nonEmpty
+    .map((r) => (r === base ? escapeMarkup(r.text) : `<r${r.index}>${escapeMarkup(r.text)}</r${r.index}>`))
+    .join("");
+  return { index: base.index, text };
+}
+
+function splitMarkup(text: string, baseIndex: number): { index: number; text: string }[] | null {
+  const segments: { index: number; text: string }[] = [];
+  let open: number | null = null;
+  let last = 0;
+
+  const push = (raw: string) => {
+    if (STRAY_TAG_RE.test(raw)) return false;
+    const t = unescapeMarkup(raw);
+    const index = open ?? baseIndex;
+    const prev = segments[segments.length - 1];
+    if (prev && prev.index === index) prev.text += t;
+    else if (t) segments.push({ index, text: t });
+    return true;
+  };
+
+  for (const m of text.matchAll(TAG_RE)) {
+    if (!push(text.slice(last, m.index))) return null;
+    last = (m.index ?? 0) + m[0].length;
+    const index = Number(m[2]);
+    if (m[1]) {
+      if (open !== index) return null;
+      open = null;
+    } else {
+      if (open !== null || index === baseIndex) return null;
+      open = index;
+    }
+  }
+  if (open !== null || !push(text.slice(last))) return null;
+  return segments;
+}
+
+/**
+ * Segments of a translated markup text, in their new order, or null when the
+ * tags are malformed: unknown, nested, unbalanced, repeated, or a styled word
+ * lost. Runs that only held whitespace may disappear.
+ */
+export function parseMarkup(
+  source: string,
+  translated: string,
+  baseIndex: number
+): { index: number; text: string }[] | null {
+  const expected = splitMarkup(source, baseIndex);
+  const segments = splitMarkup(translated, baseIndex);
+  if (!expected || !segments) return null;
+
+  const known = new Set(expected.map((s) => s.index));
+  if (segments.some((s) => !known.has(s.index))) return null;
+  // Each tag must come back once: a repeated one would apply its text twice.
+  const opened = [...translated.matchAll(TAG_RE)].filter((m) => !m[1]).map((m) => m[2]);
+  if (new Set(opened).size !== opened.length) return null;
+  const found = new Set(segments.map((s) => s.index));
+  const lost = expected.filter((s) => s.index !== baseIndex && s.text.trim() && !found.has(s.index));
+  return lost.length ? null : segments;
+}
+
+/** The original runs behind a markup text, for the run-index fallback. */
+export function markupRuns(source: string, baseIndex: number): { index: number; text: string }[] | null {
+  return splitMarkup(source, baseIndex);
+}
@@ -0,0 +1,107 @@
+// Tokens that must reach the slide byte-for-byte. They are swapped for opaque
+// placeholders before any text leaves the taskpane.
+const BUILTIN_PATTERNS: RegExp[] = [
+  /\{\{[^{}]+\}\}/g, // {{name}}
+  /\{\d+\}/g, // {0}
+  /%(?:\d+\$)?[sdif@]/g, // %s, %1$s, %d
+  /\bhttps?:\/\/[^\s<>"']+[^\s<>"'.,;:!?)]/g,
+  /\bwww\.[^\s<>"']+[^\s<>"'.,;:!?)]/g,
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  /\b[A-Z]{2,}-?\d{2,}[A-Z0-9-]*\b/g // product codes: SKU-1234, AB12X
+];
+
+const PLACEHOLDER_RE = /⟦\s*(\d+)\s*⟧/g;
+
+function placeholder(n: number): string {
+  return `⟦${n}⟧`;
+}
+
+export function stripPlaceholders(text: string): string {
+  return text.replace(PLACEHOLDER_RE, "");
+}
+
+export function compileProtectedPatterns(custom: string[]): { patterns: RegExp[]; invalid: string[] } {
+  const patterns = [...BUILTIN_PATTERNS];
+  const invalid: string[] = [];
+  for (const raw of custom) {
+    const p = raw.trim();
+    if (!p) continue;
+    try {
+      patterns.push(new RegExp(p, "g"));
+    } catch {
+      invalid.push(p);
+    }
+  }
+  return { patterns, invalid };
+}
+
+function findTokens(text: string, patterns: RegExp[]): { start: number; end: number }[] {
+  const matches: { start: number; end: number }[] = [];
+  for (const re of patterns) {
+    re.lastIndex = 0;
+    for (const m of text.matchAll(re)) {
+      if (!m[0]) continue;
+      matches.push({ start: m.index ?? 0, end: (m.index ?? 0) + m[0].length });
+    }
+  }
+  // Leftmost, then longest, without overlaps.
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const out: { start: number; end: number }[] = [];
+  let cursor = 0;
+  for (const m of matches) {
+    if (m.start < cursor) continue;
+    out.push(m);
+    cursor = m.end;
+  }
+  return out;
+}
+
+/** Masks every run of a paragraph; placeholder numbers are unique per paragraph. */
+export function maskRuns(
+  runs: { index: number; text: string }[],
+  patterns: RegExp[]
+): { runs: { index: number; text: string }[]; tokens: string[] } {
+  const tokens: string[] = [];
+  const masked = runs.map((r) => {
+    const found = findTokens(r.text, patterns);
+    if (!found.length) return r;
+    let text = "";
+    let last = 0;
+    for (const f of found) {
+      text += r.text.slice(last, f.start) + placeholder(tokens.length);
+      tokens.push(r.text.slice(f.start, f.end));
+      last = f.end;
+    }
+    text += r.text.slice(last);
+    return { index: r.index, text };
+  });
+  return { runs: masked, tokens };
+}
+
+/**
+ * Restores the tokens and checks each placeholder came back exactly once.
+ * A placeholder the model dropped or rewrote is an error, not a silent loss.
+ */
+export function unmaskRuns(
+  runs: { index: number; text: string }[],
+  tokens: string[]
+): { runs: { index: number; text: string }[] } | { error: string } {
+  const seen = new Map<number, number>();
+  const restored = runs.map((r) => ({
+    index: r.index,
+    text: r.text.replace(PLACEHOLDER_RE, (m, n: string) => {
+      const k = Number(n);
+      seen.set(k, (seen.get(k) ?? 0) + 1);
+      return tokens[k] ?? m;
+    })
+  }));
+
+  const missing = tokens.filter((_, k) => !seen.has(k));
+  if (missing.length) return { error: `jeton(s) protégé(s) manquant(s) ou modifié(s) : ${missing.join(", ")}` };
+  const duplicated = tokens.filter((_, k) => (seen.get(k) ?? 0) > 1);
+  if (duplicated.length) return { error: `jeton(s) protégé(s) dupliqué(s) : ${duplicated.join(", ")}` };
+  const unknown = [...seen.keys()].filter((k) => k >= tokens.length);
+  if (unknown.length) return { error: `jeton(s) inconnu(s) : ${unknown.map(placeholder).join(", ")}` };
+
+  return { runs: restored };
+}
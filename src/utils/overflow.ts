@@ -0,0 +1,91 @@
+// Office.js does not expose rendered text bounds: the text height is estimated
+// from font sizes, an average glyph width and the frame's usable width.
+const AVG_CHAR_WIDTH = 0.5; // em
+const LINE_HEIGHT = 1.2; // em
+const SHRINK_STEP = 0.05;
+
+export interface FrameGeometry {
+  width: number;
+  height: number;
+  leftMargin: number;
+  rightMargin: number;
+  topMargin: number;
+  bottomMargin: number;
+  wordWrap: boolean;
+}
+
+export interface SizedSpan {
+  start: number;
+  length: number;
+  size: number;
+}
+
+function charSizes(text: string, spans: SizedSpan[]): number[] {
+  const fallback = spans.find((s) => s.size)?.size ?? 18;
+  const sizes = new Array<number>(text.length).fill(0);
+  for (const s of spans) {
+    for (let i = s.start; i < s.start + s.length && i < text.length; i++) sizes[i] = s.size;
+  }
+  // Separators between runs take the size of the previous character.
+  let last = fallback;
+  for (let i = 0; i < sizes.length; i++) {
+    if (sizes[i]) last = sizes[i];
+    else sizes[i] = last;
+  }
+  return sizes;
+}
+
+export function estimateTextHeight(
+  text: string,
+  spans: SizedSpan[],
+  geometry: FrameGeometry,
+  scale = 1,
+  minSize = 0
+): number {
+  const sizes = charSizes(text, spans).map((s) => shrinkSize(s, scale, minSize));
+  const usable = Math.max(1, geometry.width - geometry.leftMargin - geometry.rightMargin);
+
+  let height = 0;
+  let pos = 0;
+  for (const line of text.split("\n")) {
+    let width = 0;
+    let maxSize = sizes[Math.min(pos, sizes.length - 1)] ?? 18;
+    for (let i = pos; i < pos + line.length; i++) {
+      width += sizes[i] * AVG_CHAR_WIDTH;
+      maxSize = Math.max(maxSize, sizes[i]);
+    }
+    const lines = geometry.wordWrap ? Math.max(1, Math.ceil(width / usable)) : 1;
+    height += lines * maxSize * LINE_HEIGHT;
+    pos += line.length + 1;
+  }
+  return height;
+}
+
+export function availableHeight(geometry: FrameGeometry): number {
+  return Math.max(1, geometry.height - geometry.topMargin - geometry.bottomMargin);
+}
+
+/**
+ * Smallest reduction (in 5% steps) that brings the estimate under `limit`,
+ * never going below `minSize`. `fits` is false when even the minimum overflows.
+ */
+export function shrinkToFit(
+  text: string,
+  spans: SizedSpan[],
+  geometry: FrameGeometry,
+  limit: number,
+  minSize: number
+): { scale: number; fits: boolean } {
+  const largest = Math.max(0, ...spans.map((s) => s.size));
+  const floor = largest > 0 ? Math.min(1, minSize / largest) : 1;
+  for (let scale = 1 - SHRINK_STEP; scale > floor - SHRINK_STEP / 2; scale -= SHRINK_STEP) {
+    if (estimateTextHeight(text, spans, geometry, scale, minSize) <= limit) return { scale, fits: true };
+  }
+  return { scale: Math.max(floor, 0), fits: false };
+}
+
+export function shrinkSize(size: number, scale: number, minSize: number): number {
+  if (!size) return size;
+  if (size <= minSize) return size;
+  return Math.max(minSize, Math.round(size * scale * 2) / 2);
+}
@@ -0,0 +1,63 @@
+// Minimal reader for the one-slide .pptx returned by `Slide.exportAsBase64()`:
+// only what is needed to read slide properties that Office.js does not expose.
+
+function base64ToBytes(base64: string): Uint8Array {
+  const bin = atob(base64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Text of the first zip entry whose name matches, or null. Stored and deflated entries only. */
+export async function readZipText(base64: string, match: (name: string) => boolean): Promise<string | null> {
+  const bytes = base64ToBytes(base64);
+  const view = new DataView(bytes.buffer);
+
+  // End of central directory: last occurrence of its signature.
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entries = view.getUint16(eocd + 10, true);
+  let ptr = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let n = 0; n < entries; n++) {
+    if (view.getUint32(ptr, true) !== 0x02014b50) return null;
+    const method = view.getUint16(ptr + 10, true);
+    const compressedSize = view.getUint32(ptr + 20, true);
+    const nameLength = view.getUint16(ptr + 28, true);
+    const extraLength = view.getUint16(ptr + 30, true);
+    const commentLength = view.getUint16(ptr + 32, true);
+    const localOffset = view.getUint32(ptr + 42, true);
+    const name = decoder.decode(bytes.subarray(ptr + 46, ptr + 46 + nameLength));
+    ptr += 46 + nameLength + extraLength + commentLength;
+    if (!match(name)) continue;
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return decoder.decode(data);
+    if (method === 8) return decoder.decode(await inflateRaw(data));
+    return null;
+  }
+  return null;
+}
+
+/** Hidden slides carry `show="0"` on their root `<p:sld>` element. */
+export async function isHiddenSlideExport(base64: string): Promise<boolean> {
+  const xml = await readZipText(base64, (name) => /^ppt\/slides\/slide\d+\.xml$/.test(name));
+  if (!xml) return false;
+  const root = xml.match(/<p:sld\b[^>]*>/)?.[0] ?? "";
+  return /\bshow="(0|false)"/.test(root);
+}
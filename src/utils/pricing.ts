@@ -0,0 +1,54 @@
+import type { ProviderId } from "./types";
+
+// Public list prices, for a rough estimate only: check the provider's pricing page.
+// LLMs: USD per million tokens. DeepL: EUR per million billed characters.
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 }
+};
+const DEEPL_PRICE_PER_MILLION_CHARS = 20;
+
+// About 4 characters per token for Latin scripts, fewer for JSON-heavy payloads.
+const CHARS_PER_TOKEN = 4;
+
+export interface CostEstimate {
+  amount: number;
+  currency: "USD" | "EUR";
+}
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/** Longest known model name that prefixes `model` ("gpt-4o-mini-2024-07-18" → "gpt-4o-mini"). */
+function tokenPrice(model: string): { input: number; output: number } | undefined {
+  const name = model.trim().toLowerCase();
+  const known = Object.keys(TOKEN_PRICES)
+    .filter((k) => name === k || name.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length);
+  return known.length ? TOKEN_PRICES[known[0]] : undefined;
+}
+
+/** Null when the price is unknown (custom endpoints, unlisted models). */
+export function estimateCost(
+  provider: ProviderId,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number; characters: number }
+): CostEstimate | null {
+  if (provider === "mock") return { amount: 0, currency: "USD" };
+  if (provider === "deepl") {
+    return { amount: (usage.characters / 1e6) * DEEPL_PRICE_PER_MILLION_CHARS, currency: "EUR" };
+  }
+  const price = tokenPrice(model);
+  if (!price) return null;
+  return {
+    amount: (usage.inputTokens / 1e6) * price.input + (usage.outputTokens / 1e6) * price.output,
+    currency: "USD"
+  };
+}
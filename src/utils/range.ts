@@ -0,0 +1,32 @@
+/**
+ * Parses a 1-based slide range expression such as "3-12, 20, 31-end" into sorted,
+ * unique 0-based indices. Every bound is checked against the slide count.
+ */
+export function parseSlideRange(expr: string, slideCount: number): { indices: number[] } | { error: string } {
+  const parts = expr
+    .split(/[,;]/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (!parts.length) return { error: "Plage de slides vide." };
+
+  const bound = (raw: string): number | null => {
+    const v = raw.trim().toLowerCase();
+    if (v === "end" || v === "fin") return slideCount;
+    return /^\d+$/.test(v) ? Number(v) : null;
+  };
+
+  const out = new Set<number>();
+  for (const part of parts) {
+    const m = part.match(/^([^-–—]+?)(?:\s*[-–—]\s*(.+))?$/);
+    const from = m ? bound(m[1]) : null;
+    const to = m?.[2] !== undefined ? bound(m[2]) : from;
+    if (from === null || to === null) return { error: `Plage invalide : « ${part} ».` };
+    if (from < 1 || to > slideCount) {
+      return { error: `« ${part} » sort du deck (slides 1 à ${slideCount}).` };
+    }
+    if (from > to) return { error: `« ${part} » : début après la fin.` };
+    for (let i = from; i <= to; i++) out.add(i - 1);
+  }
+
+  return { indices: [...out].sort((a, b) => a - b) };
+}
@@ -28,3 +28,30 @@ export function isNonTranslatable(text: string): boolean {
   if (/^[\s\d.,%+\-–—()\[\]{}<>:;!?/\\|@#^&*=~`'"€$£¥]+$/.test(text)) return true;
   return false;
 }
+
+/**
+ * Character budget of a translated paragraph: the slider goes from +50% (0) to the
+ * original length (100), with a few characters of slack for short labels.
+ */
+export function lengthBudget(originalChars: number, fitStrength: number): number {
+  const strength = Math.min(100, Math.max(0, fitStrength)) / 100;
+  const allowance = 0.5 * (1 - strength);
+  return Math.max(Math.ceil(originalChars * (1 + allowance)), originalChars + 3);
+}
+
+// FNV-1a, 32 bits: short enough to store many of them in a tag.
+export function hashText(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Whitespace-separated words; CJK characters count one each. */
+export function countWords(text: string): number {
+  const cjk = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+  const ideographs = text.match(cjk)?.length ?? 0;
+  return ideographs + text.replace(cjk, " ").split(/\s+/).filter(Boolean).length;
+}
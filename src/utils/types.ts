@@ -1,17 +1,47 @@
-export type Scope = "current" | "all";
-export type Mode = "apply" | "preview";
+export type Scope = "current" | "all" | "range" | "selection";
+export type Mode = "apply" | "preview" | "copy" | "update";
+export type CopyPlacement = "after" | "end";
+export type OverflowStrategy = "off" | "flag" | "shrink" | "shorten";
+export type TargetScript = "japanese" | "chinese" | "korean" | "thai" | "devanagari" | "arabic";
+export type ProviderId = "openai" | "openaiCompatible" | "deepl" | "mock";
+
+export interface BilingualStyle {
+  italic: boolean;
+  color: string; // "" = keep the original colour
+  sizePercent: number; // relative to the original run size
+}
 
 export interface Settings {
+  provider: ProviderId;
+  model: string; // "" = provider default
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
   apiKey: string;
+  proxyUrl: string; // "" = call the provider directly from the taskpane
+  proxyToken: string; // shared secret sent to the proxy as a bearer token
   fromLang: string; // code or "auto"
   toLang: string; // code
   scope: Scope;
+  slideRange: string; // "range" scope, 1-based: "3-12, 20, 31-end"
+  skipHidden: boolean; // "all" / "range" scopes
+  onlyTag: string; // "all" / "range" scopes: "NAME" or "NAME=value", "" = no filter
   mode: Mode;
+  deckBatching: boolean; // extract every slide, translate in shared batches, then apply
+  copyPlacement: CopyPlacement; // where "copy" mode inserts the translated slides
   keepLineBreaks: boolean;
+  bilingual: boolean; // keep the original paragraph and add the translation below it
+  bilingualStyle: BilingualStyle;
+  sendContext: boolean; // slide title, neighbours, table headers as read-only hints
+  inlineMarkup: boolean; // styled runs sent as inline tags, free to move within the sentence
+  includeNotes: boolean; // speaker notes
+  translateAltText: boolean; // altTextTitle / altTextDescription of every shape
   fitToLength: boolean;
   fitStrength: number; // 0-100
+  overflowStrategy: OverflowStrategy; // what to do with text frames that no longer fit after apply
+  minFontSize: number; // floor for the "shrink" strategy, in points
   glossary: Record<string, string>;
+  scriptFonts: Partial<Record<TargetScript, string>>; // font used for translated runs written in that script
   ignoreRegex: string;
+  protectedPatterns: string[]; // extra regexes, on top of the built-in protected tokens
   applyUnderline: boolean;
 }
 
@@ -41,6 +71,7 @@ export interface ParagraphFormatSnapshot {
   bulletVisible?: boolean;
   bulletType?: string | null;
   bulletStyle?: string | null;
+  rightToLeft?: boolean; // only set on apply, when the text direction changes
 }
 
 export interface Paragraph {
@@ -53,12 +84,18 @@ export interface Paragraph {
 export interface TranslationResult {
   paragraphId: string;
   translatedRuns: { index: number; text: string }[];
+  reordered?: boolean; // rebuilt from inline markup: run indices may repeat or move
 }
 
 export interface SlideAnalysis {
   slideIndex: number;
   textBoxes: number;
   tables: number;
+  tableCells: number;
   paragraphs: number;
+  notesParagraphs: number;
+  altTexts: number;
+  segments: number; // what would be sent, before deduplication
+  words: number;
   characters: number;
 }
@@ -1,12 +1,27 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
+import type { Plugin } from "vite";
 import { resolve } from "path";
 
-export default defineConfig(() => {
+// With a proxy, the taskpane only ever talks to the proxy: lock connect-src to it.
+function proxyConnectSrc(proxyUrl: string): Plugin {
+  return {
+    name: "proxy-connect-src",
+    transformIndexHtml(html) {
+      if (!proxyUrl) return html;
+      const origin = new URL(proxyUrl).origin;
+      return html.replace(/connect-src [^;]*;/, `connect-src 'self' ${origin};`);
+    }
+  };
+}
+
+export default defineConfig(({ mode }) => {
   // For GitHub Pages, set BASE_PATH to '/<repo>/' in the GitHub Action.
   const base = process.env.BASE_PATH ?? "/";
+  const env = { ...loadEnv(mode, process.cwd(), "VITE_"), ...process.env };
 
   return {
     base,
+    plugins: [proxyConnectSrc(env.VITE_PROXY_URL ?? "")],
     build: {
       rollupOptions: {
         input: {